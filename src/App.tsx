@@ -2,7 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { loadPyodide } from './engine/pyodide-loader';
 import InputPanel from './components/InputPanel';
 import ResultsPanel from './components/ResultsPanel';
-import { PileData, LoadCase, AnalysisConfig, AnalysisResults } from './types/pile-types';
+import { PileData, SoilProfile, LoadCase, AnalysisConfig, AnalysisResults, SolverOutput } from './types/pile-types';
 import './App.css';
 
 // Solution history entry type
@@ -48,6 +48,27 @@ function App() {
     material: 'steel'
   });
 
+  // Default soil profile
+  const [soilProfile, setSoilProfile] = useState<SoilProfile>({
+    layers: [
+      {
+        id: 'layer-1',
+        topDepth: 0,
+        bottomDepth: 15.0,
+        soilType: 'soft-clay',
+        pyCurveMethod: 'matlock',
+        properties: {
+          unitWeight: 17,
+          effectiveUnitWeight: 7.2,
+          undrainedShearStrength: 25,
+          epsilon50: 0.02,
+          J: 0.5
+        }
+      }
+    ],
+    groundwaterDepth: 0
+  });
+
   // Default load case
   const [loadCase, setLoadCase] = useState<LoadCase>({
     id: '1',
@@ -55,11 +76,12 @@ function App() {
     lateralLoad: 100,
     moment: 0,
     axialLoad: 0,
-    loadDepth: 0
+    loadDepth: 0,
+    loadingType: 'static'
   });
 
   // Default analysis config
-  const [analysisConfig] = useState<AnalysisConfig>({
+  const [analysisConfig, setAnalysisConfig] = useState<AnalysisConfig>({
     boundaryCondition: 'free-head',
     numNodes: 50,
     maxIterations: 50,
@@ -180,10 +202,25 @@ function App() {
 
     try {
       // Import the solver module and Python code
-      const { runPython } = await import('./engine/pyodide-loader');
+      const { runPython, loadPythonModule } = await import('./engine/pyodide-loader');
+      const pyCurvesCode = await import('./engine/py-curves.py?raw');
+      const momentCurvatureCode = await import('./engine/moment-curvature.py?raw');
+      const steelSectionCode = await import('./engine/steel-section.py?raw');
+      const pileGroupCode = await import('./engine/pile-group.py?raw');
+      const scourCode = await import('./engine/scour.py?raw');
+      const axialCapacityCode = await import('./engine/axial-capacity.py?raw');
+      const loadTransferCode = await import('./engine/load-transfer.py?raw');
       const solverCode = await import('./engine/pile-solver.py?raw');
 
-      // Load the solver module
+      // Load the p-y curve, section, pile group, scour, axial capacity and
+      // load transfer modules, then the solver that imports them
+      await loadPythonModule('py_curves', pyCurvesCode.default);
+      await loadPythonModule('moment_curvature', momentCurvatureCode.default);
+      await loadPythonModule('steel_section', steelSectionCode.default);
+      await loadPythonModule('pile_group', pileGroupCode.default);
+      await loadPythonModule('scour', scourCode.default);
+      await loadPythonModule('axial_capacity', axialCapacityCode.default);
+      await loadPythonModule('load_transfer', loadTransferCode.default);
       await runPython(solverCode.default);
 
       // Prepare input data
@@ -191,44 +228,61 @@ function App() {
         pile_data: {
           length: pileData.length,
           diameter: pileData.diameter,
-          EI: pileData.EI
-        },
-        soil_profile: {
-          layers: []
+          wallThickness: pileData.wallThickness ?? null,
+          EI: pileData.EI,
+          material: pileData.material,
+          sections: pileData.sections ?? [],
+          reinforcement: pileData.reinforcement ?? null,
+          steelSection: pileData.steelSection ?? null
         },
+        soil_profile: soilProfile,
         load_case: {
           lateralLoad: loadCase.lateralLoad,
           moment: loadCase.moment,
-          axialLoad: loadCase.axialLoad
+          axialLoad: loadCase.axialLoad,
+          loadDepth: loadCase.loadDepth,
+          pointLoads: loadCase.pointLoads ?? [],
+          distributedLoads: loadCase.distributedLoads ?? [],
+          soilMovement: loadCase.soilMovement ?? [],
+          soilSettlement: loadCase.soilSettlement ?? [],
+          loadingType: loadCase.loadingType,
+          cycles: loadCase.cycles
         },
         config: {
           boundaryCondition: analysisConfig.boundaryCondition,
           numNodes: analysisConfig.numNodes,
           maxIterations: analysisConfig.maxIterations,
-          convergenceTolerance: analysisConfig.convergenceTolerance
+          convergenceTolerance: analysisConfig.convergenceTolerance,
+          loadSteps: analysisConfig.loadSteps,
+          rotationalStiffness: analysisConfig.rotationalStiffness,
+          headSlope: analysisConfig.headSlope,
+          headDeflection: analysisConfig.headDeflection,
+          bucklingAnalysis: analysisConfig.bucklingAnalysis ?? false,
+          loadSettlement: analysisConfig.loadSettlement ?? false,
+          downdrag: analysisConfig.downdrag ?? false,
+          baseSprings: analysisConfig.baseSprings,
+          scour: analysisConfig.scour,
+          pileGroup: analysisConfig.pileGroup,
+          pileCap: analysisConfig.pileCap
         }
       };
 
-      // Run the solver
+      // Run the solver (input is passed as a JSON string so booleans
+      // and nulls survive the trip into Python)
       const resultCode = `
 import json
-result = solve_pile(
-  ${JSON.stringify(inputData.pile_data)},
-  ${JSON.stringify(inputData.soil_profile)},
-  ${JSON.stringify(inputData.load_case)},
-  ${JSON.stringify(inputData.config)}
-)
-json.dumps(result)
+output = solve_pile(**json.loads(${JSON.stringify(JSON.stringify(inputData))}))
+json.dumps(output)
       `;
 
       const resultJson = await runPython(resultCode);
-      const analysisResults = JSON.parse(resultJson);
+      const output: SolverOutput = JSON.parse(resultJson);
 
-      if (analysisResults.success) {
-        setResults(analysisResults as AnalysisResults);
-        addToHistory(pileData, loadCase, analysisResults as AnalysisResults);
+      if (output.success && output.results) {
+        setResults(output.results);
+        addToHistory(pileData, loadCase, output.results);
       } else {
-        alert(`Analysis failed: ${analysisResults.error}`);
+        alert(`Analysis failed: ${output.error}`);
       }
     } catch (error) {
       console.error('Analysis error:', error);
@@ -294,9 +348,13 @@ json.dumps(result)
           <div className="left-panel">
             <InputPanel
               pileData={pileData}
+              soilProfile={soilProfile}
               loadCase={loadCase}
+              analysisConfig={analysisConfig}
               onPileDataChange={setPileData}
+              onSoilProfileChange={setSoilProfile}
               onLoadCaseChange={setLoadCase}
+              onAnalysisConfigChange={setAnalysisConfig}
               lastRunAvailable={solutionHistory.length > 0}
               onCopyFromLastRun={copyFromLastRun}
             />
@@ -465,6 +523,8 @@ json.dumps(result)
               isAnalyzing={isAnalyzing}
               pileData={pileData}
               loadCase={loadCase}
+              soilProfile={soilProfile}
+              analysisConfig={analysisConfig}
               onIncreaseDiameter={handleIncreaseDiameter}
               onReduceLoad={handleReduceLoad}
               onRerunAnalysis={handleAnalyze}
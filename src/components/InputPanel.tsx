@@ -1,12 +1,45 @@
 import { useState, useMemo, useCallback } from 'react';
-import { PileData, LoadCase, PileMaterial } from '../types/pile-types';
+import {
+  PileData,
+  PileSection,
+  RCReinforcement,
+  SteelSection,
+  SteelShape,
+  SoilProfile,
+  SlopeDirection,
+  SoilLayer,
+  SoilProperties,
+  SoilType,
+  PYCurveMethod,
+  CustomPYCurve,
+  PYPoint,
+  LoadCase,
+  LoadingType,
+  PointLoad,
+  DistributedLoad,
+  SoilMovementPoint,
+  SoilSettlementPoint,
+  PileMaterial,
+  AnalysisConfig,
+  BaseSprings,
+  ScourSettings,
+  PileGroup,
+  PileCap,
+  CapPile,
+  PMultiplierMethod,
+  BoundaryCondition,
+} from '../types/pile-types';
 import './InputPanel.css';
 
 interface InputPanelProps {
   pileData: PileData;
+  soilProfile: SoilProfile;
   loadCase: LoadCase;
+  analysisConfig: AnalysisConfig;
   onPileDataChange: (data: PileData) => void;
+  onSoilProfileChange: (profile: SoilProfile) => void;
   onLoadCaseChange: (loadCase: LoadCase) => void;
+  onAnalysisConfigChange: (config: AnalysisConfig) => void;
   lastRunAvailable?: boolean;
   onCopyFromLastRun?: () => void;
 }
@@ -112,7 +145,16 @@ const unitConversions = {
   diameter: { SI: 1, Imperial: 0.0254 }, // in to m
   force: { SI: 1, Imperial: 4.44822 }, // kip to kN
   moment: { SI: 1, Imperial: 1.35582 }, // kip-ft to kN-m
-  EI: { SI: 1, Imperial: 2.419e-6 }, // kip-ft^2 to kN-m^2 (simplified)
+  EI: { SI: 1, Imperial: 0.413253 }, // kip-ft^2 to kN-m^2
+  unitWeight: { SI: 1, Imperial: 0.157087 }, // pcf to kN/m^3
+  stress: { SI: 1, Imperial: 0.0478803 }, // psf to kPa
+  rockStress: { SI: 1, Imperial: 6.89476 }, // psi to kPa
+  subgradeModulus: { SI: 1, Imperial: 271.447 }, // pci to kN/m^3
+  deflection: { SI: 1, Imperial: 0.0254 }, // in to m
+  rotationalStiffness: { SI: 1, Imperial: 1.35582 }, // kip-ft/rad to kN-m/rad
+  lineLoad: { SI: 1, Imperial: 14.5939 }, // kip/ft to kN/m
+  materialStrength: { SI: 1, Imperial: 6.89476 }, // ksi to MPa
+  springStiffness: { SI: 1, Imperial: 175.127 }, // kip/in to kN/m
 };
 
 // Modulus of elasticity for materials (GPa)
@@ -123,16 +165,246 @@ const materialModulus: Record<PileMaterial, number> = {
   composite: 50,
 };
 
+// Typical drilled shaft reinforcement (f'c 28 MPa, Grade 60 bars)
+const defaultReinforcement: RCReinforcement = {
+  concreteStrength: 28,
+  steelYield: 420,
+  numBars: 12,
+  barDiameter: 0.0286,
+  cover: 0.075,
+  nonlinearEI: true,
+};
+
+// Base springs of the order of a 1.5 m shaft socketed in stiff clay
+const defaultBaseSprings: BaseSprings = {
+  shearStiffness: 100000,
+  shearCapacity: 200,
+  rotationalStiffness: 200000,
+  momentCapacity: 300,
+};
+
+// General scour of a typical bridge pier design flood
+const defaultScour: ScourSettings = {
+  scourDepth: 1.5,
+};
+
+// Three rows of three at three diameters (for the default 0.6 m pile)
+const defaultPileGroup: PileGroup = {
+  rows: 3,
+  pilesPerRow: 3,
+  rowSpacing: 1.8,
+  pileSpacing: 1.8,
+  method: 'aashto',
+  loadingDirection: 'forward',
+};
+
+// Three-pile bent: battered outer piles at 1H:4V either side of a plumb pile
+const defaultPileCap: PileCap = {
+  piles: [
+    { id: 'cap-pile-1', position: -1.5, batter: -0.25 },
+    { id: 'cap-pile-2', position: 0, batter: 0 },
+    { id: 'cap-pile-3', position: 1.5, batter: 0.25 },
+  ],
+  axialStiffness: 400000,
+  headConnection: 'fixed',
+};
+
+const pMultiplierLabels: Record<PMultiplierMethod, string> = {
+  aashto: 'AASHTO LRFD (row position)',
+  reese: 'Reese et al. (in-line and side-by-side)',
+};
+
+// Grade 50 steel; H-pile flange and web default to an HP14x89
+const defaultSteelSection: SteelSection = {
+  shape: 'pipe',
+  yieldStrength: 345,
+  flangeWidth: 0.373,
+  flangeThickness: 0.0156,
+  webThickness: 0.0156,
+  bendingAxis: 'strong',
+  plasticHinge: true,
+};
+
+// Soil type options and the p-y method normally used for each
+const soilTypeLabels: Record<SoilType, string> = {
+  'soft-clay': 'Soft Clay',
+  'stiff-clay': 'Stiff Clay',
+  sand: 'Sand',
+  rock: 'Rock',
+  custom: 'Custom',
+};
+
+const pyMethodLabels: Record<PYCurveMethod, string> = {
+  matlock: 'Matlock (1970) Soft Clay',
+  'reese-stiff-clay': 'Reese (1975) Stiff Clay',
+  'api-sand': 'API RP 2GEO Sand',
+  'weak-rock': 'Reese (1997) Weak Rock',
+  custom: 'User-Defined',
+};
+
+const defaultPYMethod: Partial<Record<SoilType, PYCurveMethod>> = {
+  'soft-clay': 'matlock',
+  'stiff-clay': 'reese-stiff-clay',
+  sand: 'api-sand',
+  rock: 'weak-rock',
+  custom: 'custom',
+};
+
+// Typical starting properties for a new layer of each soil type (SI)
+const defaultSoilProperties: Record<SoilType, SoilProperties> = {
+  'soft-clay': { unitWeight: 17, effectiveUnitWeight: 7.2, undrainedShearStrength: 25, epsilon50: 0.02, J: 0.5 },
+  'stiff-clay': { unitWeight: 19.5, effectiveUnitWeight: 9.7, undrainedShearStrength: 100, epsilon50: 0.005, ks: 135000 },
+  sand: { unitWeight: 19, effectiveUnitWeight: 9.2, frictionAngle: 32, relativeDensity: 'medium' },
+  rock: { unitWeight: 22, uniaxialStrength: 5000, rqd: 50, rockMassModulus: 500000, krm: 0.0005 },
+  custom: { unitWeight: 18 },
+};
+
+// Pile head conditions and what each one prescribes
+const boundaryConditionLabels: Record<BoundaryCondition, { name: string; hint: string }> = {
+  'free-head': { name: 'Free Head', hint: 'Shear and moment applied; head free to rotate' },
+  'fixed-head': { name: 'Fixed Head', hint: 'Shear applied; head rotation fully restrained' },
+  'pinned-head': { name: 'Pinned Head', hint: 'Head deflection restrained; moment applied' },
+  'rotational-restraint': {
+    name: 'Rotational Restraint',
+    hint: 'Shear and moment applied; cap resists rotation with stiffness kθ',
+  },
+  'specified-slope': { name: 'Shear and Slope', hint: 'Shear applied; head rotated to a specified slope' },
+  'specified-deflection': {
+    name: 'Deflection and Moment',
+    hint: 'Head displaced by a specified deflection; moment applied',
+  },
+  'deflection-slope': { name: 'Deflection and Slope', hint: 'Head displaced and rotated by specified amounts' },
+};
+
+const slopeSpecifiedHeads: BoundaryCondition[] = ['specified-slope', 'deflection-slope'];
+const deflectionSpecifiedHeads: BoundaryCondition[] = ['specified-deflection', 'deflection-slope'];
+
+// Unit factors for p-y tables (display unit to SI)
+const pyTableUnits = {
+  SI: { y: 0.001, p: 1, yLabel: 'mm', pLabel: 'kN/m' },
+  Imperial: { y: 0.0254, p: 0.175127, yLabel: 'in', pLabel: 'lb/in' },
+};
+
+// Display units for soil movement profiles (to m)
+const soilMovementUnits = {
+  SI: { depth: 1, displacement: 0.001, depthLabel: 'm', displacementLabel: 'mm' },
+  Imperial: { depth: 0.3048, displacement: 0.0254, depthLabel: 'ft', displacementLabel: 'in' },
+};
+
+// Check a p-y table the same way the solver does
+function validateCustomCurve(curve: CustomPYCurve): string | null {
+  const { points } = curve;
+  if (points.length < 2) return 'needs at least two points';
+  if (points[0].y !== 0 || points[0].p !== 0) return 'must start at the origin (0, 0)';
+  for (let i = 1; i < points.length; i++) {
+    if (points[i].y <= points[i - 1].y) return 'y values must be strictly increasing';
+    if (points[i].p < 0) return 'resistance must not be negative';
+  }
+  return null;
+}
+
+// Format a p-y table as "y, p" lines in display units
+function formatPYPoints(points: PYPoint[], unitSystem: UnitSystem): string {
+  const factors = pyTableUnits[unitSystem];
+  return points
+    .map((pt) => `${+(pt.y / factors.y).toPrecision(6)}, ${+(pt.p / factors.p).toPrecision(6)}`)
+    .join('\n');
+}
+
+// Parse pasted "y p" pairs (comma, tab or space separated); non-numeric lines are skipped
+function parsePYPoints(text: string, unitSystem: UnitSystem): PYPoint[] {
+  const factors = pyTableUnits[unitSystem];
+  return text
+    .split('\n')
+    .map((line) => line.trim().split(/[\s,;]+/).map(Number))
+    .filter((values) => values.length >= 2 && !isNaN(values[0]) && !isNaN(values[1]))
+    .map(([y, p]) => ({ y: y * factors.y, p: p * factors.p }));
+}
+
+// Check a soil movement profile the same way the solver does
+function validateSoilMovement(points: SoilMovementPoint[]): string | null {
+  if (points.length === 0) return null;
+  if (points.length < 2) return 'Soil movement profile needs at least two points';
+  for (let i = 1; i < points.length; i++) {
+    if (points[i].depth <= points[i - 1].depth) return 'Soil movement depths must be strictly increasing';
+  }
+  return null;
+}
+
+// Format a soil movement profile as "depth, displacement" lines in display units
+function formatSoilMovement(points: SoilMovementPoint[], unitSystem: UnitSystem): string {
+  const factors = soilMovementUnits[unitSystem];
+  return points
+    .map(
+      (pt) =>
+        `${+(pt.depth / factors.depth).toPrecision(6)}, ${+(pt.displacement / factors.displacement).toPrecision(6)}`
+    )
+    .join('\n');
+}
+
+// Parse pasted "depth displacement" pairs; non-numeric lines are skipped
+function parseSoilMovement(text: string, unitSystem: UnitSystem): SoilMovementPoint[] {
+  const factors = soilMovementUnits[unitSystem];
+  return text
+    .split('\n')
+    .map((line) => line.trim().split(/[\s,;]+/).map(Number))
+    .filter((values) => values.length >= 2 && !isNaN(values[0]) && !isNaN(values[1]))
+    .map(([depth, displacement]) => ({
+      depth: depth * factors.depth,
+      displacement: displacement * factors.displacement,
+    }));
+}
+
+// Check a soil settlement profile the same way the solver does
+function validateSoilSettlement(points: SoilSettlementPoint[]): string | null {
+  if (points.length === 0) return null;
+  if (points.length < 2) return 'Soil settlement profile needs at least two points';
+  for (let i = 1; i < points.length; i++) {
+    if (points[i].depth <= points[i - 1].depth) return 'Soil settlement depths must be strictly increasing';
+  }
+  return null;
+}
+
+// Format a soil settlement profile as "depth, settlement" lines in display units
+function formatSoilSettlement(points: SoilSettlementPoint[], unitSystem: UnitSystem): string {
+  const factors = soilMovementUnits[unitSystem];
+  return points
+    .map(
+      (pt) =>
+        `${+(pt.depth / factors.depth).toPrecision(6)}, ${+(pt.settlement / factors.displacement).toPrecision(6)}`
+    )
+    .join('\n');
+}
+
+// Parse pasted "depth settlement" pairs; non-numeric lines are skipped
+function parseSoilSettlement(text: string, unitSystem: UnitSystem): SoilSettlementPoint[] {
+  const factors = soilMovementUnits[unitSystem];
+  return text
+    .split('\n')
+    .map((line) => line.trim().split(/[\s,;]+/).map(Number))
+    .filter((values) => values.length >= 2 && !isNaN(values[0]) && !isNaN(values[1]))
+    .map(([depth, settlement]) => ({
+      depth: depth * factors.depth,
+      settlement: settlement * factors.displacement,
+    }));
+}
+
 function InputPanel({
   pileData,
+  soilProfile,
   loadCase,
+  analysisConfig,
   onPileDataChange,
+  onSoilProfileChange,
   onLoadCaseChange,
+  onAnalysisConfigChange,
 }: InputPanelProps) {
   const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({
     geometry: true,
     material: true,
+    soil: true,
     loads: true,
+    analysis: false,
     presets: false,
   });
 
@@ -171,7 +443,7 @@ function InputPanel({
   }, [autoCalculateEI, pileData.diameter, pileData.wallThickness, pileData.material, pileData.EI]);
 
   // Validate inputs
-  const validateInputs = useCallback((data: PileData, load: LoadCase): ValidationError[] => {
+  const validateInputs = useCallback((data: PileData, load: LoadCase, soil: SoilProfile): ValidationError[] => {
     const errs: ValidationError[] = [];
 
     if (data.length <= 0) {
@@ -192,9 +464,110 @@ function InputPanel({
     if (data.EI <= 0) {
       errs.push({ field: 'EI', message: 'Flexural rigidity must be positive' });
     }
+    (data.sections ?? []).forEach((section, idx, sections) => {
+      if (section.endDepth <= section.startDepth) {
+        errs.push({ field: `section-${idx}`, message: `Section ${idx + 1} end must be below its start` });
+      }
+      if (idx > 0 && section.startDepth < sections[idx - 1].endDepth) {
+        errs.push({ field: `section-${idx}`, message: `Section ${idx + 1} overlaps the section above` });
+      }
+      if (section.startDepth < 0 || section.endDepth > data.length) {
+        errs.push({ field: `section-${idx}`, message: `Section ${idx + 1} must lie within the pile length` });
+      }
+      if (section.diameter <= 0 || section.EI <= 0 || (section.endDiameter ?? 1) <= 0 || (section.endEI ?? 1) <= 0) {
+        errs.push({ field: `section-${idx}`, message: `Section ${idx + 1} diameter and EI must be positive` });
+      }
+    });
+    if (data.material === 'concrete' && data.reinforcement?.nonlinearEI) {
+      const rc = data.reinforcement;
+      if (rc.concreteStrength <= 0 || rc.steelYield <= 0) {
+        errs.push({ field: 'reinforcement', message: 'Concrete strength and steel yield must be positive' });
+      }
+      if (rc.numBars < 1 || rc.barDiameter <= 0) {
+        errs.push({ field: 'reinforcement', message: 'Reinforcement needs at least one bar of positive size' });
+      }
+      if (rc.cover < 0 || rc.cover + rc.barDiameter / 2 >= data.diameter / 2) {
+        errs.push({ field: 'reinforcement', message: 'Cover and bar size leave no room for the reinforcing cage' });
+      }
+    }
+    if (data.material === 'steel' && data.steelSection) {
+      const steel = data.steelSection;
+      if (steel.yieldStrength <= 0) {
+        errs.push({ field: 'steelSection', message: 'Steel yield strength must be positive' });
+      }
+      if (steel.shape === 'h-pile') {
+        const { flangeWidth = 0, flangeThickness = 0, webThickness = 0 } = steel;
+        if (flangeWidth <= 0 || flangeThickness <= 0 || webThickness <= 0) {
+          errs.push({ field: 'steelSection', message: 'H-pile dimensions must be positive' });
+        } else if (2 * flangeThickness >= data.diameter || webThickness >= flangeWidth) {
+          errs.push({ field: 'steelSection', message: 'H-pile flanges or web are too thick for the section' });
+        }
+      } else if (!data.wallThickness || data.wallThickness <= 0) {
+        errs.push({ field: 'steelSection', message: 'Steel pipe needs a wall thickness' });
+      }
+    }
     if (Math.abs(load.lateralLoad) > 10000) {
       errs.push({ field: 'lateralLoad', message: 'Lateral load exceeds typical maximum (10,000 kN)' });
     }
+    if (load.loadDepth < 0 || load.loadDepth > data.length) {
+      errs.push({ field: 'loadDepth', message: 'Load depth must lie within the pile length' });
+    }
+    (load.pointLoads ?? []).forEach((pointLoad, idx) => {
+      if (pointLoad.depth < 0 || pointLoad.depth > data.length) {
+        errs.push({
+          field: `pointLoad-${pointLoad.id}`,
+          message: `Point load ${idx + 1} must lie within the pile length`,
+        });
+      }
+    });
+    const movementProblem = validateSoilMovement(load.soilMovement ?? []);
+    if (movementProblem) {
+      errs.push({ field: 'soilMovement', message: movementProblem });
+    }
+    const settlementProblem = validateSoilSettlement(load.soilSettlement ?? []);
+    if (settlementProblem) {
+      errs.push({ field: 'soilSettlement', message: settlementProblem });
+    }
+    (load.distributedLoads ?? []).forEach((distLoad, idx) => {
+      if (distLoad.bottomDepth <= distLoad.topDepth) {
+        errs.push({
+          field: `distLoad-${distLoad.id}`,
+          message: `Distributed load ${idx + 1} bottom must be below its top`,
+        });
+      }
+      if (distLoad.topDepth < 0 || distLoad.bottomDepth > data.length) {
+        errs.push({
+          field: `distLoad-${distLoad.id}`,
+          message: `Distributed load ${idx + 1} must lie within the pile length`,
+        });
+      }
+    });
+    if (soil.layers.length === 0) {
+      errs.push({ field: 'soil', message: 'Soil profile needs at least one layer' });
+    }
+    soil.layers.forEach((layer, idx) => {
+      if (layer.bottomDepth <= layer.topDepth) {
+        errs.push({ field: `layer-${layer.id}`, message: `Layer ${idx + 1} bottom must be below its top` });
+      }
+      if (idx > 0 && layer.topDepth < soil.layers[idx - 1].bottomDepth) {
+        errs.push({ field: `layer-${layer.id}`, message: `Layer ${idx + 1} overlaps the layer above` });
+      }
+      if (layer.pyCurveMethod === 'custom') {
+        const curves = layer.customCurves ?? [];
+        if (curves.length === 0) {
+          errs.push({ field: `layer-${layer.id}`, message: `Layer ${idx + 1} needs a p-y table` });
+        }
+        curves.forEach((curve, curveIdx) => {
+          const problem = validateCustomCurve(curve);
+          if (problem) {
+            errs.push({
+              field: `layer-${layer.id}`,
+              message: `Layer ${idx + 1} p-y table ${curveIdx + 1} ${problem}`,
+            });
+          }
+        });
+      }
+    });
 
     return errs;
   }, []);
@@ -222,22 +595,292 @@ function InputPanel({
         newData.EI = Math.round(E * I);
       }
 
-      const validationErrors = validateInputs(newData, loadCase);
+      const validationErrors = validateInputs(newData, loadCase, soilProfile);
       setErrors(validationErrors);
       onPileDataChange(newData);
     },
-    [pileData, loadCase, autoCalculateEI, validateInputs, onPileDataChange]
+    [pileData, loadCase, soilProfile, autoCalculateEI, validateInputs, onPileDataChange]
   );
 
   // Handle load case changes
   const handleLoadChange = useCallback(
     (updates: Partial<LoadCase>) => {
       const newLoad = { ...loadCase, ...updates };
-      const validationErrors = validateInputs(pileData, newLoad);
+      const validationErrors = validateInputs(pileData, newLoad, soilProfile);
       setErrors(validationErrors);
       onLoadCaseChange(newLoad);
     },
-    [pileData, loadCase, validateInputs, onLoadCaseChange]
+    [pileData, loadCase, soilProfile, validateInputs, onLoadCaseChange]
+  );
+
+  const updateSection = useCallback(
+    (index: number, updates: Partial<PileSection>) => {
+      handlePileChange({
+        sections: (pileData.sections ?? []).map((section, i) =>
+          i === index ? { ...section, ...updates } : section
+        ),
+      });
+    },
+    [pileData.sections, handlePileChange]
+  );
+
+  const addSection = useCallback(() => {
+    const existing = pileData.sections ?? [];
+    const last = existing[existing.length - 1];
+    const start = last ? Math.min(last.endDepth, pileData.length) : 0;
+    const newSection: PileSection = {
+      startDepth: start,
+      endDepth: Math.min(start + pileData.length / 3, pileData.length),
+      diameter: pileData.diameter,
+      EI: pileData.EI,
+    };
+    handlePileChange({ sections: [...existing, newSection] });
+  }, [pileData.sections, pileData.length, pileData.diameter, pileData.EI, handlePileChange]);
+
+  const removeSection = useCallback(
+    (index: number) => {
+      handlePileChange({ sections: (pileData.sections ?? []).filter((_, i) => i !== index) });
+    },
+    [pileData.sections, handlePileChange]
+  );
+
+  const updateReinforcement = useCallback(
+    (updates: Partial<RCReinforcement>) => {
+      handlePileChange({
+        reinforcement: { ...(pileData.reinforcement ?? defaultReinforcement), ...updates },
+      });
+    },
+    [pileData.reinforcement, handlePileChange]
+  );
+
+  const updateBaseSprings = useCallback(
+    (updates: Partial<BaseSprings>) => {
+      onAnalysisConfigChange({
+        ...analysisConfig,
+        baseSprings: { ...(analysisConfig.baseSprings ?? defaultBaseSprings), ...updates },
+      });
+    },
+    [analysisConfig, onAnalysisConfigChange]
+  );
+
+  const updateScour = useCallback(
+    (updates: Partial<ScourSettings>) => {
+      onAnalysisConfigChange({
+        ...analysisConfig,
+        scour: { ...(analysisConfig.scour ?? defaultScour), ...updates },
+      });
+    },
+    [analysisConfig, onAnalysisConfigChange]
+  );
+
+  const updatePileGroup = useCallback(
+    (updates: Partial<PileGroup>) => {
+      onAnalysisConfigChange({
+        ...analysisConfig,
+        pileGroup: { ...(analysisConfig.pileGroup ?? defaultPileGroup), ...updates },
+      });
+    },
+    [analysisConfig, onAnalysisConfigChange]
+  );
+
+  const updatePileCap = useCallback(
+    (updates: Partial<PileCap>) => {
+      onAnalysisConfigChange({
+        ...analysisConfig,
+        pileCap: { ...(analysisConfig.pileCap ?? defaultPileCap), ...updates },
+      });
+    },
+    [analysisConfig, onAnalysisConfigChange]
+  );
+
+  const updateCapPile = useCallback(
+    (id: string, updates: Partial<CapPile>) => {
+      updatePileCap({
+        piles: (analysisConfig.pileCap?.piles ?? []).map((pile) =>
+          pile.id === id ? { ...pile, ...updates } : pile
+        ),
+      });
+    },
+    [analysisConfig.pileCap, updatePileCap]
+  );
+
+  const addCapPile = useCallback(() => {
+    const piles = analysisConfig.pileCap?.piles ?? [];
+    const newPile: CapPile = {
+      id: `cap-pile-${Date.now()}`,
+      position: piles.length > 0 ? Math.max(...piles.map((pile) => pile.position)) + 1.5 : 0,
+      batter: 0,
+    };
+    updatePileCap({ piles: [...piles, newPile] });
+  }, [analysisConfig.pileCap, updatePileCap]);
+
+  const removeCapPile = useCallback(
+    (id: string) => {
+      updatePileCap({ piles: (analysisConfig.pileCap?.piles ?? []).filter((pile) => pile.id !== id) });
+    },
+    [analysisConfig.pileCap, updatePileCap]
+  );
+
+  const updateSteelSection = useCallback(
+    (updates: Partial<SteelSection>) => {
+      handlePileChange({
+        steelSection: { ...(pileData.steelSection ?? defaultSteelSection), ...updates },
+      });
+    },
+    [pileData.steelSection, handlePileChange]
+  );
+
+  const updatePointLoad = useCallback(
+    (id: string, updates: Partial<PointLoad>) => {
+      handleLoadChange({
+        pointLoads: (loadCase.pointLoads ?? []).map((load) =>
+          load.id === id ? { ...load, ...updates } : load
+        ),
+      });
+    },
+    [loadCase.pointLoads, handleLoadChange]
+  );
+
+  const addPointLoad = useCallback(() => {
+    const newLoad: PointLoad = {
+      id: `load-${Date.now()}`,
+      depth: pileData.length / 4,
+      lateralLoad: 0,
+      moment: 0,
+    };
+    handleLoadChange({ pointLoads: [...(loadCase.pointLoads ?? []), newLoad] });
+  }, [pileData.length, loadCase.pointLoads, handleLoadChange]);
+
+  const removePointLoad = useCallback(
+    (id: string) => {
+      handleLoadChange({ pointLoads: (loadCase.pointLoads ?? []).filter((load) => load.id !== id) });
+    },
+    [loadCase.pointLoads, handleLoadChange]
+  );
+
+  const updateDistributedLoad = useCallback(
+    (id: string, updates: Partial<DistributedLoad>) => {
+      handleLoadChange({
+        distributedLoads: (loadCase.distributedLoads ?? []).map((load) =>
+          load.id === id ? { ...load, ...updates } : load
+        ),
+      });
+    },
+    [loadCase.distributedLoads, handleLoadChange]
+  );
+
+  const addDistributedLoad = useCallback(() => {
+    const existing = loadCase.distributedLoads ?? [];
+    const last = existing[existing.length - 1];
+    const top = last ? Math.min(last.bottomDepth, pileData.length) : 0;
+    const newLoad: DistributedLoad = {
+      id: `dist-${Date.now()}`,
+      topDepth: top,
+      bottomDepth: Math.min(top + pileData.length / 4, pileData.length),
+      topIntensity: 0,
+      bottomIntensity: 0,
+    };
+    handleLoadChange({ distributedLoads: [...existing, newLoad] });
+  }, [pileData.length, loadCase.distributedLoads, handleLoadChange]);
+
+  const removeDistributedLoad = useCallback(
+    (id: string) => {
+      handleLoadChange({
+        distributedLoads: (loadCase.distributedLoads ?? []).filter((load) => load.id !== id),
+      });
+    },
+    [loadCase.distributedLoads, handleLoadChange]
+  );
+
+  // Handle soil profile changes
+  const handleSoilChange = useCallback(
+    (updates: Partial<SoilProfile>) => {
+      const newProfile = { ...soilProfile, ...updates };
+      const validationErrors = validateInputs(pileData, loadCase, newProfile);
+      setErrors(validationErrors);
+      onSoilProfileChange(newProfile);
+    },
+    [pileData, loadCase, soilProfile, validateInputs, onSoilProfileChange]
+  );
+
+  const updateLayer = useCallback(
+    (id: string, updates: Partial<SoilLayer>) => {
+      handleSoilChange({
+        layers: soilProfile.layers.map((layer) =>
+          layer.id === id ? { ...layer, ...updates } : layer
+        ),
+      });
+    },
+    [soilProfile.layers, handleSoilChange]
+  );
+
+  const updateLayerProperties = useCallback(
+    (layer: SoilLayer, updates: Partial<SoilProperties>) => {
+      updateLayer(layer.id, { properties: { ...layer.properties, ...updates } });
+    },
+    [updateLayer]
+  );
+
+  // Changing soil type resets the p-y method and properties to typical values
+  const changeLayerSoilType = useCallback(
+    (layer: SoilLayer, soilType: SoilType) => {
+      updateLayer(layer.id, {
+        soilType,
+        pyCurveMethod: defaultPYMethod[soilType] ?? layer.pyCurveMethod,
+        properties: { ...defaultSoilProperties[soilType] },
+      });
+    },
+    [updateLayer]
+  );
+
+  // New layers start at the bottom of the current profile
+  const addLayer = useCallback(() => {
+    const last = soilProfile.layers[soilProfile.layers.length - 1];
+    const top = last ? last.bottomDepth : 0;
+    const newLayer: SoilLayer = {
+      id: `layer-${Date.now()}`,
+      topDepth: top,
+      bottomDepth: top + 5,
+      soilType: 'sand',
+      pyCurveMethod: 'api-sand',
+      properties: { ...defaultSoilProperties.sand },
+    };
+    handleSoilChange({ layers: [...soilProfile.layers, newLayer] });
+  }, [soilProfile.layers, handleSoilChange]);
+
+  const updateCustomCurves = useCallback(
+    (layer: SoilLayer, customCurves: CustomPYCurve[]) => {
+      updateLayer(layer.id, { customCurves });
+    },
+    [updateLayer]
+  );
+
+  const addCustomCurve = useCallback(
+    (layer: SoilLayer) => {
+      const curves = layer.customCurves ?? [];
+      const last = curves[curves.length - 1];
+      updateCustomCurves(layer, [
+        ...curves,
+        {
+          depth: last ? Math.min(last.depth + 1, layer.bottomDepth) : layer.topDepth,
+          points: last
+            ? last.points.map((pt) => ({ ...pt }))
+            : [
+                { y: 0, p: 0 },
+                { y: 0.005, p: 20 },
+                { y: 0.02, p: 40 },
+              ],
+        },
+      ]);
+    },
+    [updateCustomCurves]
+  );
+
+  const removeLayer = useCallback(
+    (id: string) => {
+      handleSoilChange({ layers: soilProfile.layers.filter((layer) => layer.id !== id) });
+    },
+    [soilProfile.layers, handleSoilChange]
   );
 
   // Apply preset
@@ -262,6 +905,15 @@ function InputPanel({
     force: unitSystem === 'SI' ? 'kN' : 'kip',
     moment: unitSystem === 'SI' ? 'kN-m' : 'kip-ft',
     EI: unitSystem === 'SI' ? 'kN-m^2' : 'kip-ft^2',
+    unitWeight: unitSystem === 'SI' ? 'kN/m^3' : 'pcf',
+    stress: unitSystem === 'SI' ? 'kPa' : 'psf',
+    rockStress: unitSystem === 'SI' ? 'kPa' : 'psi',
+    subgradeModulus: unitSystem === 'SI' ? 'kN/m^3' : 'pci',
+    deflection: unitSystem === 'SI' ? 'm' : 'in',
+    rotationalStiffness: unitSystem === 'SI' ? 'kN-m/rad' : 'kip-ft/rad',
+    lineLoad: unitSystem === 'SI' ? 'kN/m' : 'kip/ft',
+    materialStrength: unitSystem === 'SI' ? 'MPa' : 'ksi',
+    springStiffness: unitSystem === 'SI' ? 'kN/m' : 'kip/in',
   };
 
   // Convert display value based on unit system
@@ -435,6 +1087,118 @@ function InputPanel({
                 {unitSystem === 'SI' ? 'Enter in mm' : 'Enter in inches'}
               </span>
             </div>
+
+            {(pileData.sections ?? []).map((section, idx) => (
+              <div
+                key={idx}
+                className={`soil-layer-card ${getFieldError(`section-${idx}`) ? 'has-error' : ''}`}
+              >
+                <div className="soil-layer-header">
+                  <span className="soil-layer-title">Section {idx + 1}</span>
+                  <button
+                    className="remove-layer-btn"
+                    onClick={() => removeSection(idx)}
+                    title="Remove section"
+                  >
+                    Remove
+                  </button>
+                </div>
+                {getFieldError(`section-${idx}`) && (
+                  <span className="field-error">{getFieldError(`section-${idx}`)}</span>
+                )}
+
+                <div className="form-row">
+                  <div className="form-group">
+                    <label htmlFor={`section-${idx}-start`}>Start ({units.length})</label>
+                    <input
+                      id={`section-${idx}-start`}
+                      type="number"
+                      value={displayValue(section.startDepth, 'length').toFixed(2)}
+                      onChange={(e) =>
+                        updateSection(idx, { startDepth: toSI(parseFloat(e.target.value) || 0, 'length') })
+                      }
+                      step={unitSystem === 'SI' ? '0.5' : '1'}
+                      min="0"
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor={`section-${idx}-end`}>End ({units.length})</label>
+                    <input
+                      id={`section-${idx}-end`}
+                      type="number"
+                      value={displayValue(section.endDepth, 'length').toFixed(2)}
+                      onChange={(e) =>
+                        updateSection(idx, { endDepth: toSI(parseFloat(e.target.value) || 0, 'length') })
+                      }
+                      step={unitSystem === 'SI' ? '0.5' : '1'}
+                      min="0"
+                    />
+                  </div>
+                </div>
+                <div className="form-row">
+                  <div className="form-group">
+                    <label htmlFor={`section-${idx}-diameter`}>Diameter, top ({units.diameter})</label>
+                    <input
+                      id={`section-${idx}-diameter`}
+                      type="number"
+                      value={+displayValue(section.diameter, 'diameter').toFixed(3)}
+                      onChange={(e) =>
+                        updateSection(idx, { diameter: toSI(parseFloat(e.target.value) || 0, 'diameter') })
+                      }
+                      step={unitSystem === 'SI' ? '0.01' : '1'}
+                      min="0"
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor={`section-${idx}-end-diameter`}>Diameter, bottom ({units.diameter})</label>
+                    <input
+                      id={`section-${idx}-end-diameter`}
+                      type="number"
+                      value={+displayValue(section.endDiameter ?? section.diameter, 'diameter').toFixed(3)}
+                      onChange={(e) =>
+                        updateSection(idx, { endDiameter: toSI(parseFloat(e.target.value) || 0, 'diameter') })
+                      }
+                      step={unitSystem === 'SI' ? '0.01' : '1'}
+                      min="0"
+                    />
+                  </div>
+                </div>
+                <div className="form-row">
+                  <div className="form-group">
+                    <label htmlFor={`section-${idx}-ei`}>EI, top ({units.EI})</label>
+                    <input
+                      id={`section-${idx}-ei`}
+                      type="number"
+                      value={Math.round(displayValue(section.EI, 'EI'))}
+                      onChange={(e) => updateSection(idx, { EI: toSI(parseFloat(e.target.value) || 0, 'EI') })}
+                      step="1000"
+                      min="0"
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor={`section-${idx}-end-ei`}>EI, bottom ({units.EI})</label>
+                    <input
+                      id={`section-${idx}-end-ei`}
+                      type="number"
+                      value={Math.round(displayValue(section.endEI ?? section.EI, 'EI'))}
+                      onChange={(e) =>
+                        updateSection(idx, { endEI: toSI(parseFloat(e.target.value) || 0, 'EI') })
+                      }
+                      step="1000"
+                      min="0"
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            <button className="add-layer-btn" onClick={addSection}>
+              + Add Section
+            </button>
+            <span className="input-hint">
+              Sections override the pile diameter and EI over their depth range; different top and
+              bottom values give a tapered section
+            </span>
           </div>
         )}
       </section>
@@ -498,9 +1262,9 @@ function InputPanel({
               <input
                 id="pile-EI"
                 type="number"
-                value={autoCalculateEI ? calculateEI.toFixed(0) : pileData.EI}
+                value={(autoCalculateEI ? displayValue(calculateEI, 'EI') : displayValue(pileData.EI, 'EI')).toFixed(0)}
                 onChange={(e) =>
-                  handlePileChange({ EI: parseFloat(e.target.value) || 0 })
+                  handlePileChange({ EI: toSI(parseFloat(e.target.value) || 0, 'EI') })
                 }
                 step="1000"
                 min="1"
@@ -513,6 +1277,742 @@ function InputPanel({
                 </span>
               )}
             </div>
+
+            {pileData.material === 'concrete' && (
+              <>
+                <div className="form-group checkbox-group">
+                  <label className="checkbox-label">
+                    <input
+                      type="checkbox"
+                      checked={pileData.reinforcement?.nonlinearEI ?? false}
+                      onChange={(e) => updateReinforcement({ nonlinearEI: e.target.checked })}
+                    />
+                    <span>Nonlinear EI from moment-curvature</span>
+                  </label>
+                  <span className="input-hint">
+                    Circular RC section; EI softens as the shaft cracks and the bars yield
+                  </span>
+                </div>
+
+                {pileData.reinforcement?.nonlinearEI && (
+                  <div className={`soil-layer-card ${getFieldError('reinforcement') ? 'has-error' : ''}`}>
+                    <div className="soil-layer-header">
+                      <span className="soil-layer-title">Reinforcement</span>
+                    </div>
+                    {getFieldError('reinforcement') && (
+                      <span className="field-error">{getFieldError('reinforcement')}</span>
+                    )}
+                    <div className="form-row">
+                      <div className="form-group">
+                        <label htmlFor="rc-concrete-strength">f'c ({units.materialStrength})</label>
+                        <input
+                          id="rc-concrete-strength"
+                          type="number"
+                          value={+displayValue(pileData.reinforcement.concreteStrength, 'materialStrength').toFixed(2)}
+                          onChange={(e) =>
+                            updateReinforcement({
+                              concreteStrength: toSI(parseFloat(e.target.value) || 0, 'materialStrength'),
+                            })
+                          }
+                          step={unitSystem === 'SI' ? '1' : '0.5'}
+                          min="0"
+                        />
+                      </div>
+                      <div className="form-group">
+                        <label htmlFor="rc-steel-yield">fy ({units.materialStrength})</label>
+                        <input
+                          id="rc-steel-yield"
+                          type="number"
+                          value={+displayValue(pileData.reinforcement.steelYield, 'materialStrength').toFixed(1)}
+                          onChange={(e) =>
+                            updateReinforcement({
+                              steelYield: toSI(parseFloat(e.target.value) || 0, 'materialStrength'),
+                            })
+                          }
+                          step={unitSystem === 'SI' ? '10' : '1'}
+                          min="0"
+                        />
+                      </div>
+                    </div>
+                    <div className="form-row">
+                      <div className="form-group">
+                        <label htmlFor="rc-num-bars">Number of Bars</label>
+                        <input
+                          id="rc-num-bars"
+                          type="number"
+                          value={pileData.reinforcement.numBars}
+                          onChange={(e) =>
+                            updateReinforcement({ numBars: Math.max(1, Math.round(parseFloat(e.target.value) || 0)) })
+                          }
+                          step="1"
+                          min="1"
+                        />
+                      </div>
+                      <div className="form-group">
+                        <label htmlFor="rc-bar-diameter">Bar Diameter ({units.diameter})</label>
+                        <input
+                          id="rc-bar-diameter"
+                          type="number"
+                          value={+displayValue(pileData.reinforcement.barDiameter, 'diameter').toFixed(4)}
+                          onChange={(e) =>
+                            updateReinforcement({ barDiameter: toSI(parseFloat(e.target.value) || 0, 'diameter') })
+                          }
+                          step={unitSystem === 'SI' ? '0.001' : '0.125'}
+                          min="0"
+                        />
+                      </div>
+                    </div>
+                    <div className="form-group">
+                      <label htmlFor="rc-cover">Clear Cover ({units.diameter})</label>
+                      <input
+                        id="rc-cover"
+                        type="number"
+                        value={+displayValue(pileData.reinforcement.cover, 'diameter').toFixed(3)}
+                        onChange={(e) =>
+                          updateReinforcement({ cover: toSI(parseFloat(e.target.value) || 0, 'diameter') })
+                        }
+                        step={unitSystem === 'SI' ? '0.005' : '0.5'}
+                        min="0"
+                      />
+                      <span className="input-hint">EI above is replaced by the uncracked section stiffness</span>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+
+            {pileData.material === 'steel' && (
+              <>
+                <div className="form-group checkbox-group">
+                  <label className="checkbox-label">
+                    <input
+                      type="checkbox"
+                      checked={!!pileData.steelSection}
+                      onChange={(e) =>
+                        handlePileChange({ steelSection: e.target.checked ? defaultSteelSection : undefined })
+                      }
+                    />
+                    <span>Check yield and plastic moments</span>
+                  </label>
+                </div>
+
+                {pileData.steelSection && (
+                  <div className={`soil-layer-card ${getFieldError('steelSection') ? 'has-error' : ''}`}>
+                    <div className="soil-layer-header">
+                      <span className="soil-layer-title">Steel Section</span>
+                    </div>
+                    {getFieldError('steelSection') && (
+                      <span className="field-error">{getFieldError('steelSection')}</span>
+                    )}
+                    <div className="form-row">
+                      <div className="form-group">
+                        <label htmlFor="steel-shape">Shape</label>
+                        <select
+                          id="steel-shape"
+                          value={pileData.steelSection.shape}
+                          onChange={(e) => updateSteelSection({ shape: e.target.value as SteelShape })}
+                        >
+                          <option value="pipe">Pipe</option>
+                          <option value="h-pile">H-Pile</option>
+                        </select>
+                      </div>
+                      <div className="form-group">
+                        <label htmlFor="steel-fy">Fy ({units.materialStrength})</label>
+                        <input
+                          id="steel-fy"
+                          type="number"
+                          value={+displayValue(pileData.steelSection.yieldStrength, 'materialStrength').toFixed(1)}
+                          onChange={(e) =>
+                            updateSteelSection({
+                              yieldStrength: toSI(parseFloat(e.target.value) || 0, 'materialStrength'),
+                            })
+                          }
+                          step={unitSystem === 'SI' ? '5' : '1'}
+                          min="0"
+                        />
+                      </div>
+                    </div>
+                    {pileData.steelSection.shape === 'pipe' ? (
+                      <span className="input-hint">Uses the diameter and wall thickness above</span>
+                    ) : (
+                      <>
+                        <div className="form-row">
+                          <div className="form-group">
+                            <label htmlFor="steel-flange-width">Flange Width ({units.diameter})</label>
+                            <input
+                              id="steel-flange-width"
+                              type="number"
+                              value={+displayValue(pileData.steelSection.flangeWidth ?? 0, 'diameter').toFixed(3)}
+                              onChange={(e) =>
+                                updateSteelSection({ flangeWidth: toSI(parseFloat(e.target.value) || 0, 'diameter') })
+                              }
+                              step={unitSystem === 'SI' ? '0.005' : '0.25'}
+                              min="0"
+                            />
+                          </div>
+                          <div className="form-group">
+                            <label htmlFor="steel-bending-axis">Bending Axis</label>
+                            <select
+                              id="steel-bending-axis"
+                              value={pileData.steelSection.bendingAxis ?? 'strong'}
+                              onChange={(e) =>
+                                updateSteelSection({ bendingAxis: e.target.value as 'strong' | 'weak' })
+                              }
+                            >
+                              <option value="strong">Strong</option>
+                              <option value="weak">Weak</option>
+                            </select>
+                          </div>
+                        </div>
+                        <div className="form-row">
+                          <div className="form-group">
+                            <label htmlFor="steel-flange-thickness">Flange Thickness ({units.diameter})</label>
+                            <input
+                              id="steel-flange-thickness"
+                              type="number"
+                              value={+displayValue(pileData.steelSection.flangeThickness ?? 0, 'diameter').toFixed(4)}
+                              onChange={(e) =>
+                                updateSteelSection({
+                                  flangeThickness: toSI(parseFloat(e.target.value) || 0, 'diameter'),
+                                })
+                              }
+                              step={unitSystem === 'SI' ? '0.001' : '0.0625'}
+                              min="0"
+                            />
+                          </div>
+                          <div className="form-group">
+                            <label htmlFor="steel-web-thickness">Web Thickness ({units.diameter})</label>
+                            <input
+                              id="steel-web-thickness"
+                              type="number"
+                              value={+displayValue(pileData.steelSection.webThickness ?? 0, 'diameter').toFixed(4)}
+                              onChange={(e) =>
+                                updateSteelSection({ webThickness: toSI(parseFloat(e.target.value) || 0, 'diameter') })
+                              }
+                              step={unitSystem === 'SI' ? '0.001' : '0.0625'}
+                              min="0"
+                            />
+                          </div>
+                        </div>
+                        <span className="input-hint">Section depth is the diameter above</span>
+                      </>
+                    )}
+                    <div className="form-group checkbox-group">
+                      <label className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          checked={pileData.steelSection.plasticHinge}
+                          onChange={(e) => updateSteelSection({ plasticHinge: e.target.checked })}
+                        />
+                        <span>Form plastic hinges (cap moment at Mp)</span>
+                      </label>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </section>
+
+      {/* Soil Profile Section */}
+      <section className={`input-section collapsible ${expandedSections.soil ? 'expanded' : ''}`}>
+        <button className="section-header" onClick={() => toggleSection('soil')}>
+          <span className="section-icon">
+            <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+              <path d="M1 3h14v3H1V3zm0 4h14v3H1V7zm0 4h14v3H1v-3z" />
+            </svg>
+          </span>
+          <h3>Soil Profile</h3>
+          <span className={`expand-icon ${expandedSections.soil ? 'rotated' : ''}`}>
+            <svg width="12" height="12" viewBox="0 0 12 12" fill="currentColor">
+              <path d="M2 4l4 4 4-4" />
+            </svg>
+          </span>
+        </button>
+        {expandedSections.soil && (
+          <div className="section-content">
+            <div className="form-group">
+              <label htmlFor="groundwater-depth">Groundwater Depth ({units.length})</label>
+              <input
+                id="groundwater-depth"
+                type="number"
+                value={
+                  soilProfile.groundwaterDepth !== undefined
+                    ? displayValue(soilProfile.groundwaterDepth, 'length').toFixed(2)
+                    : ''
+                }
+                onChange={(e) => {
+                  const val = parseFloat(e.target.value);
+                  handleSoilChange({
+                    groundwaterDepth: isNaN(val) ? undefined : toSI(val, 'length'),
+                  });
+                }}
+                step={unitSystem === 'SI' ? '0.1' : '1'}
+                min="0"
+                placeholder="Leave empty if no groundwater"
+              />
+            </div>
+
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="ground-slope">Ground Slope (°)</label>
+                <input
+                  id="ground-slope"
+                  type="number"
+                  value={soilProfile.groundSlope ?? 0}
+                  onChange={(e) =>
+                    handleSoilChange({
+                      groundSlope: Math.min(Math.max(parseFloat(e.target.value) || 0, 0), 89),
+                    })
+                  }
+                  step="1"
+                  min="0"
+                  max="89"
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="slope-direction">Lateral Load Toward</label>
+                <select
+                  id="slope-direction"
+                  value={soilProfile.slopeDirection ?? 'downslope'}
+                  onChange={(e) => handleSoilChange({ slopeDirection: e.target.value as SlopeDirection })}
+                  disabled={!soilProfile.groundSlope}
+                >
+                  <option value="downslope">Downslope</option>
+                  <option value="upslope">Upslope</option>
+                </select>
+              </div>
+            </div>
+            <span className="input-hint">
+              Loading downslope reduces the clay and sand wedge resistance; upslope is analyzed as level ground
+            </span>
+
+            {getFieldError('soil') && (
+              <span className="field-error">{getFieldError('soil')}</span>
+            )}
+
+            {soilProfile.layers.map((layer, idx) => (
+              <div
+                key={layer.id}
+                className={`soil-layer-card ${getFieldError(`layer-${layer.id}`) ? 'has-error' : ''}`}
+              >
+                <div className="soil-layer-header">
+                  <span className="soil-layer-title">
+                    Layer {idx + 1}: {soilTypeLabels[layer.soilType]}
+                  </span>
+                  <button
+                    className="remove-layer-btn"
+                    onClick={() => removeLayer(layer.id)}
+                    title="Remove layer"
+                  >
+                    Remove
+                  </button>
+                </div>
+                {getFieldError(`layer-${layer.id}`) && (
+                  <span className="field-error">{getFieldError(`layer-${layer.id}`)}</span>
+                )}
+
+                <div className="form-row">
+                  <div className="form-group">
+                    <label htmlFor={`${layer.id}-top`}>Top ({units.length})</label>
+                    <input
+                      id={`${layer.id}-top`}
+                      type="number"
+                      value={displayValue(layer.topDepth, 'length').toFixed(2)}
+                      onChange={(e) =>
+                        updateLayer(layer.id, {
+                          topDepth: toSI(parseFloat(e.target.value) || 0, 'length'),
+                        })
+                      }
+                      step={unitSystem === 'SI' ? '0.5' : '1'}
+                      min="0"
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor={`${layer.id}-bottom`}>Bottom ({units.length})</label>
+                    <input
+                      id={`${layer.id}-bottom`}
+                      type="number"
+                      value={displayValue(layer.bottomDepth, 'length').toFixed(2)}
+                      onChange={(e) =>
+                        updateLayer(layer.id, {
+                          bottomDepth: toSI(parseFloat(e.target.value) || 0, 'length'),
+                        })
+                      }
+                      step={unitSystem === 'SI' ? '0.5' : '1'}
+                      min="0"
+                    />
+                  </div>
+                </div>
+
+                <div className="form-row">
+                  <div className="form-group">
+                    <label htmlFor={`${layer.id}-type`}>Soil Type</label>
+                    <select
+                      id={`${layer.id}-type`}
+                      value={layer.soilType}
+                      onChange={(e) => changeLayerSoilType(layer, e.target.value as SoilType)}
+                    >
+                      {(Object.keys(soilTypeLabels) as SoilType[]).map((type) => (
+                        <option key={type} value={type}>
+                          {soilTypeLabels[type]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor={`${layer.id}-method`}>P-Y Curve Method</label>
+                    <select
+                      id={`${layer.id}-method`}
+                      value={layer.pyCurveMethod}
+                      onChange={(e) =>
+                        updateLayer(layer.id, { pyCurveMethod: e.target.value as PYCurveMethod })
+                      }
+                    >
+                      {(Object.keys(pyMethodLabels) as PYCurveMethod[]).map((method) => (
+                        <option key={method} value={method}>
+                          {pyMethodLabels[method]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div className="form-row">
+                  <div className="form-group">
+                    <label htmlFor={`${layer.id}-gamma`}>Unit Weight ({units.unitWeight})</label>
+                    <input
+                      id={`${layer.id}-gamma`}
+                      type="number"
+                      value={displayValue(layer.properties.unitWeight, 'unitWeight').toFixed(1)}
+                      onChange={(e) =>
+                        updateLayerProperties(layer, {
+                          unitWeight: toSI(parseFloat(e.target.value) || 0, 'unitWeight'),
+                        })
+                      }
+                      step="0.5"
+                      min="0"
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor={`${layer.id}-gamma-eff`}>Effective Unit Weight ({units.unitWeight})</label>
+                    <input
+                      id={`${layer.id}-gamma-eff`}
+                      type="number"
+                      value={
+                        layer.properties.effectiveUnitWeight !== undefined
+                          ? displayValue(layer.properties.effectiveUnitWeight, 'unitWeight').toFixed(1)
+                          : ''
+                      }
+                      onChange={(e) => {
+                        const val = parseFloat(e.target.value);
+                        updateLayerProperties(layer, {
+                          effectiveUnitWeight: isNaN(val) ? undefined : toSI(val, 'unitWeight'),
+                        });
+                      }}
+                      step="0.5"
+                      min="0"
+                      placeholder="γ − γw"
+                    />
+                  </div>
+                </div>
+
+                {(layer.pyCurveMethod === 'matlock' || layer.pyCurveMethod === 'reese-stiff-clay') && (
+                  <div className="form-row">
+                    <div className="form-group">
+                      <label htmlFor={`${layer.id}-cu`}>Undrained Shear Strength ({units.stress})</label>
+                      <input
+                        id={`${layer.id}-cu`}
+                        type="number"
+                        value={displayValue(layer.properties.undrainedShearStrength ?? 0, 'stress').toFixed(1)}
+                        onChange={(e) =>
+                          updateLayerProperties(layer, {
+                            undrainedShearStrength: toSI(parseFloat(e.target.value) || 0, 'stress'),
+                          })
+                        }
+                        step={unitSystem === 'SI' ? '5' : '100'}
+                        min="0"
+                      />
+                    </div>
+                    <div className="form-group">
+                      <label htmlFor={`${layer.id}-e50`}>Strain ε50</label>
+                      <input
+                        id={`${layer.id}-e50`}
+                        type="number"
+                        value={layer.properties.epsilon50 ?? ''}
+                        onChange={(e) => {
+                          const val = parseFloat(e.target.value);
+                          updateLayerProperties(layer, { epsilon50: isNaN(val) ? undefined : val });
+                        }}
+                        step="0.001"
+                        min="0"
+                        placeholder="From strength"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {layer.pyCurveMethod === 'matlock' && (
+                  <div className="form-group">
+                    <label htmlFor={`${layer.id}-J`}>Matlock J</label>
+                    <input
+                      id={`${layer.id}-J`}
+                      type="number"
+                      value={layer.properties.J ?? 0.5}
+                      onChange={(e) =>
+                        updateLayerProperties(layer, { J: parseFloat(e.target.value) || 0 })
+                      }
+                      step="0.05"
+                      min="0"
+                    />
+                    <span className="input-hint">0.5 for soft clay, 0.25 for medium clay</span>
+                  </div>
+                )}
+
+                {layer.pyCurveMethod === 'reese-stiff-clay' && (
+                  <div className="form-group">
+                    <label htmlFor={`${layer.id}-ks`}>Subgrade Modulus ks ({units.subgradeModulus})</label>
+                    <input
+                      id={`${layer.id}-ks`}
+                      type="number"
+                      value={
+                        layer.properties.ks !== undefined
+                          ? displayValue(layer.properties.ks, 'subgradeModulus').toFixed(0)
+                          : ''
+                      }
+                      onChange={(e) => {
+                        const val = parseFloat(e.target.value);
+                        updateLayerProperties(layer, {
+                          ks: isNaN(val) ? undefined : toSI(val, 'subgradeModulus'),
+                        });
+                      }}
+                      step={unitSystem === 'SI' ? '10000' : '50'}
+                      min="0"
+                      placeholder="From strength"
+                    />
+                    <span className="input-hint">
+                      {soilProfile.groundwaterDepth !== undefined &&
+                      soilProfile.groundwaterDepth <= layer.topDepth
+                        ? 'Below water table: Reese et al. (1975) with free water'
+                        : 'Above water table: Welch & Reese (1972) without free water'}
+                    </span>
+                  </div>
+                )}
+
+                {layer.pyCurveMethod === 'api-sand' && (
+                  <>
+                    <div className="form-row">
+                      <div className="form-group">
+                        <label htmlFor={`${layer.id}-phi`}>Friction Angle φ' (deg)</label>
+                        <input
+                          id={`${layer.id}-phi`}
+                          type="number"
+                          value={layer.properties.frictionAngle ?? 30}
+                          onChange={(e) =>
+                            updateLayerProperties(layer, { frictionAngle: parseFloat(e.target.value) || 0 })
+                          }
+                          step="1"
+                          min="20"
+                          max="45"
+                        />
+                      </div>
+                      <div className="form-group">
+                        <label htmlFor={`${layer.id}-dr`}>Relative Density</label>
+                        <select
+                          id={`${layer.id}-dr`}
+                          value={layer.properties.relativeDensity ?? ''}
+                          onChange={(e) =>
+                            updateLayerProperties(layer, {
+                              relativeDensity: (e.target.value || undefined) as SoilProperties['relativeDensity'],
+                            })
+                          }
+                        >
+                          <option value="">From φ'</option>
+                          <option value="loose">Loose</option>
+                          <option value="medium">Medium</option>
+                          <option value="dense">Dense</option>
+                          <option value="very-dense">Very Dense</option>
+                        </select>
+                      </div>
+                    </div>
+                    <div className="form-group">
+                      <label htmlFor={`${layer.id}-k0`}>Initial Modulus k ({units.subgradeModulus})</label>
+                      <input
+                        id={`${layer.id}-k0`}
+                        type="number"
+                        value={
+                          layer.properties.k0 !== undefined
+                            ? displayValue(layer.properties.k0, 'subgradeModulus').toFixed(0)
+                            : ''
+                        }
+                        onChange={(e) => {
+                          const val = parseFloat(e.target.value);
+                          updateLayerProperties(layer, {
+                            k0: isNaN(val) ? undefined : toSI(val, 'subgradeModulus'),
+                          });
+                        }}
+                        step={unitSystem === 'SI' ? '1000' : '10'}
+                        min="0"
+                        placeholder="From φ' or relative density"
+                      />
+                    </div>
+                  </>
+                )}
+
+                {layer.pyCurveMethod === 'weak-rock' && (
+                  <>
+                    <div className="form-row">
+                      <div className="form-group">
+                        <label htmlFor={`${layer.id}-qur`}>Uniaxial Strength qur ({units.rockStress})</label>
+                        <input
+                          id={`${layer.id}-qur`}
+                          type="number"
+                          value={displayValue(layer.properties.uniaxialStrength ?? 0, 'rockStress').toFixed(0)}
+                          onChange={(e) =>
+                            updateLayerProperties(layer, {
+                              uniaxialStrength: toSI(parseFloat(e.target.value) || 0, 'rockStress'),
+                            })
+                          }
+                          step={unitSystem === 'SI' ? '500' : '100'}
+                          min="0"
+                        />
+                      </div>
+                      <div className="form-group">
+                        <label htmlFor={`${layer.id}-rqd`}>RQD (%)</label>
+                        <input
+                          id={`${layer.id}-rqd`}
+                          type="number"
+                          value={layer.properties.rqd ?? 0}
+                          onChange={(e) =>
+                            updateLayerProperties(layer, {
+                              rqd: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)),
+                            })
+                          }
+                          step="5"
+                          min="0"
+                          max="100"
+                        />
+                      </div>
+                    </div>
+                    <div className="form-row">
+                      <div className="form-group">
+                        <label htmlFor={`${layer.id}-eir`}>Rock Mass Modulus Eir ({units.rockStress})</label>
+                        <input
+                          id={`${layer.id}-eir`}
+                          type="number"
+                          value={displayValue(layer.properties.rockMassModulus ?? 0, 'rockStress').toFixed(0)}
+                          onChange={(e) =>
+                            updateLayerProperties(layer, {
+                              rockMassModulus: toSI(parseFloat(e.target.value) || 0, 'rockStress'),
+                            })
+                          }
+                          step={unitSystem === 'SI' ? '50000' : '5000'}
+                          min="0"
+                        />
+                      </div>
+                      <div className="form-group">
+                        <label htmlFor={`${layer.id}-krm`}>Strain Factor krm</label>
+                        <input
+                          id={`${layer.id}-krm`}
+                          type="number"
+                          value={layer.properties.krm ?? 0.0005}
+                          onChange={(e) =>
+                            updateLayerProperties(layer, { krm: parseFloat(e.target.value) || 0 })
+                          }
+                          step="0.00005"
+                          min="0"
+                        />
+                      </div>
+                    </div>
+                    <span className="input-hint">krm typically ranges from 0.0005 to 0.00005</span>
+                  </>
+                )}
+
+                {layer.pyCurveMethod === 'custom' && (
+                  <div className="custom-py-tables">
+                    {(layer.customCurves ?? []).map((curve, curveIdx) => (
+                      <div key={curveIdx} className="custom-py-table">
+                        <div className="soil-layer-header">
+                          <span className="soil-layer-title">P-Y Table {curveIdx + 1}</span>
+                          <button
+                            className="remove-layer-btn"
+                            onClick={() =>
+                              updateCustomCurves(
+                                layer,
+                                (layer.customCurves ?? []).filter((_, i) => i !== curveIdx)
+                              )
+                            }
+                            title="Remove table"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                        <div className="form-group">
+                          <label htmlFor={`${layer.id}-curve-${curveIdx}-depth`}>
+                            Table Depth ({units.length})
+                          </label>
+                          <input
+                            id={`${layer.id}-curve-${curveIdx}-depth`}
+                            type="number"
+                            value={displayValue(curve.depth, 'length').toFixed(2)}
+                            onChange={(e) =>
+                              updateCustomCurves(
+                                layer,
+                                (layer.customCurves ?? []).map((c, i) =>
+                                  i === curveIdx
+                                    ? { ...c, depth: toSI(parseFloat(e.target.value) || 0, 'length') }
+                                    : c
+                                )
+                              )
+                            }
+                            step={unitSystem === 'SI' ? '0.5' : '1'}
+                            min="0"
+                          />
+                        </div>
+                        <div className="form-group">
+                          <label htmlFor={`${layer.id}-curve-${curveIdx}-points`}>
+                            Points: y ({pyTableUnits[unitSystem].yLabel}), p ({pyTableUnits[unitSystem].pLabel})
+                          </label>
+                          <textarea
+                            id={`${layer.id}-curve-${curveIdx}-points`}
+                            key={`${unitSystem}-${JSON.stringify(curve.points)}`}
+                            defaultValue={formatPYPoints(curve.points, unitSystem)}
+                            onBlur={(e) =>
+                              updateCustomCurves(
+                                layer,
+                                (layer.customCurves ?? []).map((c, i) =>
+                                  i === curveIdx
+                                    ? { ...c, points: parsePYPoints(e.target.value, unitSystem) }
+                                    : c
+                                )
+                              )
+                            }
+                            rows={6}
+                            spellCheck={false}
+                          />
+                          <span className="input-hint">
+                            One "y, p" pair per line, starting at 0, 0. Paste from a spreadsheet or other software.
+                          </span>
+                        </div>
+                      </div>
+                    ))}
+                    <button className="add-layer-btn" onClick={() => addCustomCurve(layer)}>
+                      + Add P-Y Table
+                    </button>
+                    {(layer.customCurves ?? []).length > 1 && (
+                      <span className="input-hint">
+                        Resistance is interpolated linearly in depth between tables
+                      </span>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+
+            <button className="add-layer-btn" onClick={addLayer}>
+              + Add Layer
+            </button>
           </div>
         )}
       </section>
@@ -557,7 +2057,13 @@ function InputPanel({
                 }}
                 step={unitSystem === 'SI' ? '10' : '1'}
               />
-              <span className="input-hint">Positive = pushing pile in +X direction</span>
+              <span className="input-hint">
+                {analysisConfig.pileGroup
+                  ? 'Total for the group, applied through the cap'
+                  : analysisConfig.pileCap
+                    ? 'Horizontal load on the cap, positive toward +x'
+                    : 'Positive = pushing pile in +X direction'}
+              </span>
             </div>
 
             <div className="form-group">
@@ -578,7 +2084,31 @@ function InputPanel({
                 }}
                 step={unitSystem === 'SI' ? '10' : '1'}
               />
-              <span className="input-hint">Positive = counterclockwise when viewed from +Y</span>
+              <span className="input-hint">
+                {analysisConfig.pileGroup
+                  ? 'A group carries lateral load only; use a pile cap for moment'
+                  : 'Positive = counterclockwise when viewed from +Y'}
+              </span>
+            </div>
+
+            <div className={`form-group ${getFieldError('loadDepth') ? 'has-error' : ''}`}>
+              <label htmlFor="load-depth">
+                Load Depth ({units.length})
+                {getFieldError('loadDepth') && (
+                  <span className="field-error">{getFieldError('loadDepth')}</span>
+                )}
+              </label>
+              <input
+                id="load-depth"
+                type="number"
+                value={displayValue(loadCase.loadDepth, 'length').toFixed(2)}
+                onChange={(e) =>
+                  handleLoadChange({ loadDepth: toSI(parseFloat(e.target.value) || 0, 'length') })
+                }
+                step={unitSystem === 'SI' ? '0.5' : '1'}
+                min="0"
+              />
+              <span className="input-hint">Depth below pile head where the load and moment act</span>
             </div>
 
             <div className="form-group">
@@ -601,6 +2131,863 @@ function InputPanel({
               />
               <span className="input-hint">Positive = compression (downward)</span>
             </div>
+
+            <div className="form-group">
+              <label htmlFor="loading-type">Loading Type</label>
+              <select
+                id="loading-type"
+                value={loadCase.loadingType}
+                onChange={(e) => handleLoadChange({ loadingType: e.target.value as LoadingType })}
+              >
+                <option value="static">Static</option>
+                <option value="cyclic">Cyclic</option>
+              </select>
+              <span className="input-hint">Cyclic loading uses degraded p-y curves</span>
+            </div>
+
+            {loadCase.loadingType === 'cyclic' && (
+              <div className="form-group">
+                <label htmlFor="load-cycles">Number of Cycles</label>
+                <input
+                  id="load-cycles"
+                  type="number"
+                  value={loadCase.cycles ?? 100}
+                  onChange={(e) =>
+                    handleLoadChange({ cycles: Math.max(1, parseInt(e.target.value) || 1) })
+                  }
+                  step="10"
+                  min="1"
+                />
+                <span className="input-hint">Used by stiff clay without free water (Welch & Reese)</span>
+              </div>
+            )}
+
+            {(loadCase.pointLoads ?? []).map((pointLoad, idx) => (
+              <div
+                key={pointLoad.id}
+                className={`soil-layer-card ${getFieldError(`pointLoad-${pointLoad.id}`) ? 'has-error' : ''}`}
+              >
+                <div className="soil-layer-header">
+                  <span className="soil-layer-title">Point Load {idx + 1}</span>
+                  <button
+                    className="remove-layer-btn"
+                    onClick={() => removePointLoad(pointLoad.id)}
+                    title="Remove point load"
+                  >
+                    Remove
+                  </button>
+                </div>
+                {getFieldError(`pointLoad-${pointLoad.id}`) && (
+                  <span className="field-error">{getFieldError(`pointLoad-${pointLoad.id}`)}</span>
+                )}
+
+                <div className="form-group">
+                  <label htmlFor={`${pointLoad.id}-depth`}>Depth ({units.length})</label>
+                  <input
+                    id={`${pointLoad.id}-depth`}
+                    type="number"
+                    value={displayValue(pointLoad.depth, 'length').toFixed(2)}
+                    onChange={(e) =>
+                      updatePointLoad(pointLoad.id, {
+                        depth: toSI(parseFloat(e.target.value) || 0, 'length'),
+                      })
+                    }
+                    step={unitSystem === 'SI' ? '0.5' : '1'}
+                    min="0"
+                  />
+                </div>
+                <div className="form-row">
+                  <div className="form-group">
+                    <label htmlFor={`${pointLoad.id}-lateral`}>Lateral ({units.force})</label>
+                    <input
+                      id={`${pointLoad.id}-lateral`}
+                      type="number"
+                      value={displayValue(pointLoad.lateralLoad, 'force').toFixed(1)}
+                      onChange={(e) =>
+                        updatePointLoad(pointLoad.id, {
+                          lateralLoad: toSI(parseFloat(e.target.value) || 0, 'force'),
+                        })
+                      }
+                      step={unitSystem === 'SI' ? '10' : '1'}
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor={`${pointLoad.id}-moment`}>Moment ({units.moment})</label>
+                    <input
+                      id={`${pointLoad.id}-moment`}
+                      type="number"
+                      value={displayValue(pointLoad.moment, 'moment').toFixed(1)}
+                      onChange={(e) =>
+                        updatePointLoad(pointLoad.id, {
+                          moment: toSI(parseFloat(e.target.value) || 0, 'moment'),
+                        })
+                      }
+                      step={unitSystem === 'SI' ? '10' : '1'}
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            <button className="add-layer-btn" onClick={addPointLoad}>
+              + Add Point Load
+            </button>
+
+            {(loadCase.distributedLoads ?? []).map((distLoad, idx) => (
+              <div
+                key={distLoad.id}
+                className={`soil-layer-card ${getFieldError(`distLoad-${distLoad.id}`) ? 'has-error' : ''}`}
+              >
+                <div className="soil-layer-header">
+                  <span className="soil-layer-title">Distributed Load {idx + 1}</span>
+                  <button
+                    className="remove-layer-btn"
+                    onClick={() => removeDistributedLoad(distLoad.id)}
+                    title="Remove distributed load"
+                  >
+                    Remove
+                  </button>
+                </div>
+                {getFieldError(`distLoad-${distLoad.id}`) && (
+                  <span className="field-error">{getFieldError(`distLoad-${distLoad.id}`)}</span>
+                )}
+
+                <div className="form-row">
+                  <div className="form-group">
+                    <label htmlFor={`${distLoad.id}-top`}>Top ({units.length})</label>
+                    <input
+                      id={`${distLoad.id}-top`}
+                      type="number"
+                      value={displayValue(distLoad.topDepth, 'length').toFixed(2)}
+                      onChange={(e) =>
+                        updateDistributedLoad(distLoad.id, {
+                          topDepth: toSI(parseFloat(e.target.value) || 0, 'length'),
+                        })
+                      }
+                      step={unitSystem === 'SI' ? '0.5' : '1'}
+                      min="0"
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor={`${distLoad.id}-bottom`}>Bottom ({units.length})</label>
+                    <input
+                      id={`${distLoad.id}-bottom`}
+                      type="number"
+                      value={displayValue(distLoad.bottomDepth, 'length').toFixed(2)}
+                      onChange={(e) =>
+                        updateDistributedLoad(distLoad.id, {
+                          bottomDepth: toSI(parseFloat(e.target.value) || 0, 'length'),
+                        })
+                      }
+                      step={unitSystem === 'SI' ? '0.5' : '1'}
+                      min="0"
+                    />
+                  </div>
+                </div>
+                <div className="form-row">
+                  <div className="form-group">
+                    <label htmlFor={`${distLoad.id}-q-top`}>q Top ({units.lineLoad})</label>
+                    <input
+                      id={`${distLoad.id}-q-top`}
+                      type="number"
+                      value={displayValue(distLoad.topIntensity, 'lineLoad').toFixed(2)}
+                      onChange={(e) =>
+                        updateDistributedLoad(distLoad.id, {
+                          topIntensity: toSI(parseFloat(e.target.value) || 0, 'lineLoad'),
+                        })
+                      }
+                      step={unitSystem === 'SI' ? '1' : '0.1'}
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor={`${distLoad.id}-q-bottom`}>q Bottom ({units.lineLoad})</label>
+                    <input
+                      id={`${distLoad.id}-q-bottom`}
+                      type="number"
+                      value={displayValue(distLoad.bottomIntensity, 'lineLoad').toFixed(2)}
+                      onChange={(e) =>
+                        updateDistributedLoad(distLoad.id, {
+                          bottomIntensity: toSI(parseFloat(e.target.value) || 0, 'lineLoad'),
+                        })
+                      }
+                      step={unitSystem === 'SI' ? '1' : '0.1'}
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            <button className="add-layer-btn" onClick={addDistributedLoad}>
+              + Add Distributed Load
+            </button>
+
+            <div className={`form-group custom-py-table ${getFieldError('soilMovement') ? 'has-error' : ''}`}>
+              <label htmlFor="soil-movement">
+                Soil Movement: depth ({soilMovementUnits[unitSystem].depthLabel}), displacement (
+                {soilMovementUnits[unitSystem].displacementLabel})
+                {getFieldError('soilMovement') && (
+                  <span className="field-error">{getFieldError('soilMovement')}</span>
+                )}
+              </label>
+              <textarea
+                id="soil-movement"
+                key={`${unitSystem}-${JSON.stringify(loadCase.soilMovement ?? [])}`}
+                defaultValue={formatSoilMovement(loadCase.soilMovement ?? [], unitSystem)}
+                onBlur={(e) => handleLoadChange({ soilMovement: parseSoilMovement(e.target.value, unitSystem) })}
+                rows={4}
+                spellCheck={false}
+                placeholder="Leave empty for no imposed soil movement"
+              />
+              <span className="input-hint">
+                Free-field displacement for lateral spreading or embankment loading; zero outside the listed depths
+              </span>
+            </div>
+
+            {analysisConfig.downdrag && (
+              <div className={`form-group custom-py-table ${getFieldError('soilSettlement') ? 'has-error' : ''}`}>
+                <label htmlFor="soil-settlement">
+                  Soil Settlement: depth ({soilMovementUnits[unitSystem].depthLabel}), settlement (
+                  {soilMovementUnits[unitSystem].displacementLabel})
+                  {getFieldError('soilSettlement') && (
+                    <span className="field-error">{getFieldError('soilSettlement')}</span>
+                  )}
+                </label>
+                <textarea
+                  id="soil-settlement"
+                  key={`${unitSystem}-${JSON.stringify(loadCase.soilSettlement ?? [])}`}
+                  defaultValue={formatSoilSettlement(loadCase.soilSettlement ?? [], unitSystem)}
+                  onBlur={(e) => handleLoadChange({ soilSettlement: parseSoilSettlement(e.target.value, unitSystem) })}
+                  rows={4}
+                  spellCheck={false}
+                  placeholder="Leave empty for no soil settlement"
+                />
+                <span className="input-hint">
+                  Settlement of consolidating soil (e.g. under embankment fill) for the downdrag analysis; zero outside
+                  the listed depths
+                </span>
+              </div>
+            )}
+          </div>
+        )}
+      </section>
+
+
+      {/* Analysis Settings Section */}
+      <section className={`input-section collapsible ${expandedSections.analysis ? 'expanded' : ''}`}>
+        <button className="section-header" onClick={() => toggleSection('analysis')}>
+          <span className="section-icon">
+            <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+              <path d="M2 3h12v2H2V3zm2 4h8v2H4V7zm2 4h4v2H6v-2z" />
+            </svg>
+          </span>
+          <h3>Analysis Settings</h3>
+          <span className={`expand-icon ${expandedSections.analysis ? 'rotated' : ''}`}>
+            <svg width="12" height="12" viewBox="0 0 12 12" fill="currentColor">
+              <path d="M2 4l4 4 4-4" />
+            </svg>
+          </span>
+        </button>
+        {expandedSections.analysis && (
+          <div className="section-content">
+            <div className="form-group">
+              <label htmlFor="boundary-condition">Pile Head Condition</label>
+              <select
+                id="boundary-condition"
+                value={analysisConfig.boundaryCondition}
+                onChange={(e) =>
+                  onAnalysisConfigChange({
+                    ...analysisConfig,
+                    boundaryCondition: e.target.value as BoundaryCondition,
+                  })
+                }
+              >
+                {(Object.keys(boundaryConditionLabels) as BoundaryCondition[]).map((bc) => (
+                  <option key={bc} value={bc}>
+                    {boundaryConditionLabels[bc].name}
+                  </option>
+                ))}
+              </select>
+              <span className="input-hint">
+                {boundaryConditionLabels[analysisConfig.boundaryCondition].hint}
+              </span>
+            </div>
+
+            {analysisConfig.boundaryCondition === 'rotational-restraint' && (
+              <div className="form-group">
+                <label htmlFor="rotational-stiffness">
+                  Rotational Stiffness kθ ({units.rotationalStiffness})
+                </label>
+                <input
+                  id="rotational-stiffness"
+                  type="number"
+                  value={displayValue(analysisConfig.rotationalStiffness ?? 0, 'rotationalStiffness')}
+                  onChange={(e) =>
+                    onAnalysisConfigChange({
+                      ...analysisConfig,
+                      rotationalStiffness: Math.max(
+                        0,
+                        toSI(parseFloat(e.target.value) || 0, 'rotationalStiffness')
+                      ),
+                    })
+                  }
+                  step="1000"
+                  min="0"
+                />
+                <span className="input-hint">0 = free head; very large values approach a fixed head</span>
+              </div>
+            )}
+
+            {deflectionSpecifiedHeads.includes(analysisConfig.boundaryCondition) && (
+              <div className="form-group">
+                <label htmlFor="head-deflection">Head Deflection ({units.deflection})</label>
+                <input
+                  id="head-deflection"
+                  type="number"
+                  value={displayValue(analysisConfig.headDeflection ?? 0, 'deflection')}
+                  onChange={(e) =>
+                    onAnalysisConfigChange({
+                      ...analysisConfig,
+                      headDeflection: toSI(parseFloat(e.target.value) || 0, 'deflection'),
+                    })
+                  }
+                  step={unitSystem === 'SI' ? '0.001' : '0.1'}
+                />
+              </div>
+            )}
+
+            {slopeSpecifiedHeads.includes(analysisConfig.boundaryCondition) && (
+              <div className="form-group">
+                <label htmlFor="head-slope">Head Slope (rad)</label>
+                <input
+                  id="head-slope"
+                  type="number"
+                  value={analysisConfig.headSlope ?? 0}
+                  onChange={(e) =>
+                    onAnalysisConfigChange({
+                      ...analysisConfig,
+                      headSlope: parseFloat(e.target.value) || 0,
+                    })
+                  }
+                  step="0.001"
+                />
+                <span className="input-hint">Positive slope = deflection increasing with depth</span>
+              </div>
+            )}
+
+            <div className="form-group">
+              <label htmlFor="num-nodes">Number of Nodes</label>
+              <input
+                id="num-nodes"
+                type="number"
+                value={analysisConfig.numNodes}
+                onChange={(e) =>
+                  onAnalysisConfigChange({
+                    ...analysisConfig,
+                    numNodes: Math.max(5, parseInt(e.target.value) || 5),
+                  })
+                }
+                step="10"
+                min="5"
+              />
+              <span className="input-hint">Finite difference nodes along the pile</span>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="load-steps">Load Steps</label>
+              <input
+                id="load-steps"
+                type="number"
+                value={analysisConfig.loadSteps}
+                onChange={(e) =>
+                  onAnalysisConfigChange({
+                    ...analysisConfig,
+                    loadSteps: Math.max(1, parseInt(e.target.value) || 1),
+                  })
+                }
+                step="1"
+                min="1"
+              />
+              <span className="input-hint">Increments of the applied loads for the pushover curve</span>
+            </div>
+
+            <div className="form-group checkbox-group">
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={analysisConfig.bucklingAnalysis ?? false}
+                  onChange={(e) =>
+                    onAnalysisConfigChange({ ...analysisConfig, bucklingAnalysis: e.target.checked })
+                  }
+                />
+                <span>Buckling analysis</span>
+              </label>
+              <span className="input-hint">
+                Critical axial load for this soil and head condition, and the P-delta amplification
+              </span>
+            </div>
+
+            <div className="form-group checkbox-group">
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={analysisConfig.loadSettlement ?? false}
+                  onChange={(e) =>
+                    onAnalysisConfigChange({ ...analysisConfig, loadSettlement: e.target.checked })
+                  }
+                />
+                <span>Axial load-settlement (t-z)</span>
+              </label>
+              <span className="input-hint">
+                Head load-settlement curve and axial load transfer from API t-z and Q-z curves
+              </span>
+            </div>
+
+            <div className="form-group checkbox-group">
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={analysisConfig.downdrag ?? false}
+                  onChange={(e) => onAnalysisConfigChange({ ...analysisConfig, downdrag: e.target.checked })}
+                />
+                <span>Downdrag</span>
+              </label>
+              <span className="input-hint">
+                Neutral plane, dragload and pile settlement from the load case soil settlement profile
+              </span>
+            </div>
+
+            <div className="form-group checkbox-group">
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={analysisConfig.baseSprings !== undefined}
+                  onChange={(e) =>
+                    onAnalysisConfigChange({
+                      ...analysisConfig,
+                      baseSprings: e.target.checked ? defaultBaseSprings : undefined,
+                    })
+                  }
+                />
+                <span>Base shear and moment springs</span>
+              </label>
+              <span className="input-hint">
+                Tip resistance for short, rigid shafts; free tip when unchecked
+              </span>
+            </div>
+
+            {analysisConfig.baseSprings && (
+              <div className="soil-layer-card">
+                <div className="soil-layer-header">
+                  <span className="soil-layer-title">Base Springs</span>
+                </div>
+                <div className="form-row">
+                  <div className="form-group">
+                    <label htmlFor="base-shear-stiffness">Shear Stiffness ({units.springStiffness})</label>
+                    <input
+                      id="base-shear-stiffness"
+                      type="number"
+                      value={+displayValue(analysisConfig.baseSprings.shearStiffness, 'springStiffness').toFixed(1)}
+                      onChange={(e) =>
+                        updateBaseSprings({
+                          shearStiffness: Math.max(0, toSI(parseFloat(e.target.value) || 0, 'springStiffness')),
+                        })
+                      }
+                      step="1000"
+                      min="0"
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor="base-shear-capacity">Shear Capacity ({units.force})</label>
+                    <input
+                      id="base-shear-capacity"
+                      type="number"
+                      value={+displayValue(analysisConfig.baseSprings.shearCapacity, 'force').toFixed(1)}
+                      onChange={(e) =>
+                        updateBaseSprings({
+                          shearCapacity: Math.max(0, toSI(parseFloat(e.target.value) || 0, 'force')),
+                        })
+                      }
+                      step="10"
+                      min="0"
+                    />
+                  </div>
+                </div>
+                <div className="form-row">
+                  <div className="form-group">
+                    <label htmlFor="base-rotational-stiffness">
+                      Rotational Stiffness ({units.rotationalStiffness})
+                    </label>
+                    <input
+                      id="base-rotational-stiffness"
+                      type="number"
+                      value={+displayValue(analysisConfig.baseSprings.rotationalStiffness, 'rotationalStiffness').toFixed(0)}
+                      onChange={(e) =>
+                        updateBaseSprings({
+                          rotationalStiffness: Math.max(
+                            0,
+                            toSI(parseFloat(e.target.value) || 0, 'rotationalStiffness')
+                          ),
+                        })
+                      }
+                      step="1000"
+                      min="0"
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor="base-moment-capacity">Moment Capacity ({units.moment})</label>
+                    <input
+                      id="base-moment-capacity"
+                      type="number"
+                      value={+displayValue(analysisConfig.baseSprings.momentCapacity, 'moment').toFixed(1)}
+                      onChange={(e) =>
+                        updateBaseSprings({
+                          momentCapacity: Math.max(0, toSI(parseFloat(e.target.value) || 0, 'moment')),
+                        })
+                      }
+                      step="10"
+                      min="0"
+                    />
+                  </div>
+                </div>
+                <span className="input-hint">
+                  Hyperbolic springs from the initial stiffness to the capacity; capacity 0 = linear
+                </span>
+              </div>
+            )}
+
+            <div className="form-group checkbox-group">
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={analysisConfig.scour !== undefined}
+                  onChange={(e) =>
+                    onAnalysisConfigChange({
+                      ...analysisConfig,
+                      scour: e.target.checked ? defaultScour : undefined,
+                    })
+                  }
+                />
+                <span>Scour</span>
+              </label>
+              <span className="input-hint">
+                Removes the soil above the scour depth and compares scoured and unscoured results
+              </span>
+            </div>
+
+            {analysisConfig.scour && (
+              <div className="soil-layer-card">
+                <div className="soil-layer-header">
+                  <span className="soil-layer-title">Scour</span>
+                </div>
+                <div className="form-row">
+                  <div className="form-group">
+                    <label htmlFor="scour-depth">General Scour ({units.length})</label>
+                    <input
+                      id="scour-depth"
+                      type="number"
+                      value={+displayValue(analysisConfig.scour.scourDepth, 'length').toFixed(2)}
+                      onChange={(e) =>
+                        updateScour({
+                          scourDepth: Math.max(0, toSI(parseFloat(e.target.value) || 0, 'length')),
+                        })
+                      }
+                      step="0.1"
+                      min="0"
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor="local-scour-depth">Local Scour ({units.length})</label>
+                    <input
+                      id="local-scour-depth"
+                      type="number"
+                      value={+displayValue(analysisConfig.scour.localScourDepth ?? 0, 'length').toFixed(2)}
+                      onChange={(e) =>
+                        updateScour({
+                          localScourDepth: Math.max(0, toSI(parseFloat(e.target.value) || 0, 'length')),
+                        })
+                      }
+                      step="0.1"
+                      min="0"
+                    />
+                  </div>
+                </div>
+                <div className="form-row">
+                  <div className="form-group">
+                    <label htmlFor="scour-hole-width">Hole Bottom Width ({units.length})</label>
+                    <input
+                      id="scour-hole-width"
+                      type="number"
+                      value={
+                        analysisConfig.scour.holeBottomWidth !== undefined
+                          ? +displayValue(analysisConfig.scour.holeBottomWidth, 'length').toFixed(2)
+                          : ''
+                      }
+                      onChange={(e) => {
+                        const val = parseFloat(e.target.value);
+                        updateScour({
+                          holeBottomWidth: isNaN(val) ? undefined : Math.max(0, toSI(val, 'length')),
+                        });
+                      }}
+                      step="0.1"
+                      min="0"
+                      placeholder="Optional"
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor="scour-hole-slope">Hole Side Slope (H:V)</label>
+                    <input
+                      id="scour-hole-slope"
+                      type="number"
+                      value={analysisConfig.scour.holeSideSlope ?? ''}
+                      onChange={(e) => {
+                        const val = parseFloat(e.target.value);
+                        updateScour({ holeSideSlope: isNaN(val) ? undefined : Math.max(0, val) });
+                      }}
+                      step="0.5"
+                      min="0"
+                      placeholder="Optional"
+                    />
+                  </div>
+                </div>
+                <span className="input-hint">
+                  Depths below the ground surface; with the hole width and slope, the soil around a local scour
+                  hole still loads the soil below it
+                </span>
+              </div>
+            )}
+
+            <div className="form-group checkbox-group">
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={analysisConfig.pileGroup !== undefined}
+                  onChange={(e) =>
+                    onAnalysisConfigChange({
+                      ...analysisConfig,
+                      pileGroup: e.target.checked ? defaultPileGroup : undefined,
+                      pileCap: e.target.checked ? undefined : analysisConfig.pileCap,
+                    })
+                  }
+                />
+                <span>Pile group with p-multipliers</span>
+              </label>
+              <span className="input-hint">
+                Head lateral load becomes the group total shared through a rigid cap
+              </span>
+            </div>
+
+            {analysisConfig.pileGroup && (
+              <div className="soil-layer-card">
+                <div className="soil-layer-header">
+                  <span className="soil-layer-title">Pile Group</span>
+                </div>
+                <div className="form-row">
+                  <div className="form-group">
+                    <label htmlFor="group-rows">Rows in Load Direction</label>
+                    <input
+                      id="group-rows"
+                      type="number"
+                      value={analysisConfig.pileGroup.rows}
+                      onChange={(e) =>
+                        updatePileGroup({ rows: Math.max(1, Math.round(parseFloat(e.target.value) || 1)) })
+                      }
+                      step="1"
+                      min="1"
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor="group-piles-per-row">Piles per Row</label>
+                    <input
+                      id="group-piles-per-row"
+                      type="number"
+                      value={analysisConfig.pileGroup.pilesPerRow}
+                      onChange={(e) =>
+                        updatePileGroup({ pilesPerRow: Math.max(1, Math.round(parseFloat(e.target.value) || 1)) })
+                      }
+                      step="1"
+                      min="1"
+                    />
+                  </div>
+                </div>
+                <div className="form-row">
+                  <div className="form-group">
+                    <label htmlFor="group-row-spacing">Row Spacing ({units.length})</label>
+                    <input
+                      id="group-row-spacing"
+                      type="number"
+                      value={+displayValue(analysisConfig.pileGroup.rowSpacing, 'length').toFixed(2)}
+                      onChange={(e) =>
+                        updatePileGroup({ rowSpacing: Math.max(0, toSI(parseFloat(e.target.value) || 0, 'length')) })
+                      }
+                      step={unitSystem === 'SI' ? '0.1' : '0.5'}
+                      min="0"
+                    />
+                    <span className="input-hint">
+                      {(analysisConfig.pileGroup.rowSpacing / pileData.diameter).toFixed(1)} diameters
+                    </span>
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor="group-pile-spacing">Spacing in Row ({units.length})</label>
+                    <input
+                      id="group-pile-spacing"
+                      type="number"
+                      value={+displayValue(analysisConfig.pileGroup.pileSpacing, 'length').toFixed(2)}
+                      onChange={(e) =>
+                        updatePileGroup({ pileSpacing: Math.max(0, toSI(parseFloat(e.target.value) || 0, 'length')) })
+                      }
+                      step={unitSystem === 'SI' ? '0.1' : '0.5'}
+                      min="0"
+                    />
+                    <span className="input-hint">
+                      {(analysisConfig.pileGroup.pileSpacing / pileData.diameter).toFixed(1)} diameters
+                    </span>
+                  </div>
+                </div>
+                <div className="form-row">
+                  <div className="form-group">
+                    <label htmlFor="group-method">P-Multipliers</label>
+                    <select
+                      id="group-method"
+                      value={analysisConfig.pileGroup.method}
+                      onChange={(e) => updatePileGroup({ method: e.target.value as PMultiplierMethod })}
+                    >
+                      {(Object.keys(pMultiplierLabels) as PMultiplierMethod[]).map((method) => (
+                        <option key={method} value={method}>
+                          {pMultiplierLabels[method]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor="group-direction">Loading Direction</label>
+                    <select
+                      id="group-direction"
+                      value={analysisConfig.pileGroup.loadingDirection}
+                      onChange={(e) =>
+                        updatePileGroup({ loadingDirection: e.target.value as PileGroup['loadingDirection'] })
+                      }
+                    >
+                      <option value="forward">Row 1 leading</option>
+                      <option value="reverse">Last row leading</option>
+                    </select>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <div className="form-group checkbox-group">
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={analysisConfig.pileCap !== undefined}
+                  onChange={(e) =>
+                    onAnalysisConfigChange({
+                      ...analysisConfig,
+                      pileCap: e.target.checked ? defaultPileCap : undefined,
+                      pileGroup: e.target.checked ? undefined : analysisConfig.pileGroup,
+                    })
+                  }
+                />
+                <span>Pile cap / bent</span>
+              </label>
+              <span className="input-hint">
+                Rigid cap on vertical and battered piles; lateral, axial and moment loads act on the cap
+              </span>
+            </div>
+
+            {analysisConfig.pileCap && (
+              <div className="soil-layer-card">
+                <div className="soil-layer-header">
+                  <span className="soil-layer-title">Pile Cap</span>
+                </div>
+                <div className="form-row">
+                  <div className="form-group">
+                    <label htmlFor="cap-axial-stiffness">Pile Axial Stiffness ({units.springStiffness})</label>
+                    <input
+                      id="cap-axial-stiffness"
+                      type="number"
+                      value={+displayValue(analysisConfig.pileCap.axialStiffness, 'springStiffness').toFixed(0)}
+                      onChange={(e) =>
+                        updatePileCap({
+                          axialStiffness: Math.max(0, toSI(parseFloat(e.target.value) || 0, 'springStiffness')),
+                        })
+                      }
+                      step="10000"
+                      min="0"
+                    />
+                    <span className="input-hint">About AE/L for an end-bearing pile</span>
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor="cap-connection">Head Connection</label>
+                    <select
+                      id="cap-connection"
+                      value={analysisConfig.pileCap.headConnection}
+                      onChange={(e) =>
+                        updatePileCap({ headConnection: e.target.value as PileCap['headConnection'] })
+                      }
+                    >
+                      <option value="fixed">Fixed (moment connection)</option>
+                      <option value="pinned">Pinned</option>
+                    </select>
+                  </div>
+                </div>
+
+                {analysisConfig.pileCap.piles.map((pile, idx) => (
+                  <div key={pile.id} className="form-row">
+                    <div className="form-group">
+                      <label htmlFor={`${pile.id}-position`}>
+                        Pile {idx + 1} Position ({units.length})
+                      </label>
+                      <input
+                        id={`${pile.id}-position`}
+                        type="number"
+                        value={+displayValue(pile.position, 'length').toFixed(2)}
+                        onChange={(e) =>
+                          updateCapPile(pile.id, { position: toSI(parseFloat(e.target.value) || 0, 'length') })
+                        }
+                        step={unitSystem === 'SI' ? '0.1' : '0.5'}
+                      />
+                    </div>
+                    <div className="form-group">
+                      <label htmlFor={`${pile.id}-batter`}>Batter (H:V)</label>
+                      <input
+                        id={`${pile.id}-batter`}
+                        type="number"
+                        value={pile.batter}
+                        onChange={(e) => updateCapPile(pile.id, { batter: parseFloat(e.target.value) || 0 })}
+                        step="0.05"
+                      />
+                    </div>
+                    <div className="form-group">
+                      <label htmlFor={`${pile.id}-pm`}>p-Multiplier</label>
+                      <input
+                        id={`${pile.id}-pm`}
+                        type="number"
+                        value={pile.pMultiplier ?? 1}
+                        onChange={(e) =>
+                          updateCapPile(pile.id, { pMultiplier: Math.max(0, parseFloat(e.target.value) || 0) })
+                        }
+                        step="0.05"
+                        min="0"
+                      />
+                    </div>
+                    <button
+                      className="remove-layer-btn"
+                      onClick={() => removeCapPile(pile.id)}
+                      title="Remove pile"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+                <button className="add-layer-btn" onClick={addCapPile}>
+                  + Add Pile
+                </button>
+                <span className="input-hint">
+                  Positions from the load point; positive batter leans the toe toward +x
+                </span>
+              </div>
+            )}
           </div>
         )}
       </section>
@@ -618,6 +3005,9 @@ function InputPanel({
             L = {pileData.length.toFixed(1)} m, D = {(pileData.diameter * 1000).toFixed(0)} mm
           </li>
           <li>EI = {pileData.EI.toLocaleString()} kN-m<sup>2</sup></li>
+          <li>
+            {soilProfile.layers.length} soil {soilProfile.layers.length === 1 ? 'layer' : 'layers'}
+          </li>
         </ul>
       </div>
     </div>
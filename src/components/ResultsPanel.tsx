@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
-import { AnalysisResults, PileData, LoadCase } from '../types/pile-types';
+import { AnalysisResults, PileData, LoadCase, SoilProfile, AnalysisConfig, BoundaryCondition, DepthRange } from '../types/pile-types';
 import ChartsPanel from './visualization/ChartsPanel';
 import PileCrossSection from './visualization/PileCrossSection';
 import PileElevation from './visualization/PileElevation';
@@ -10,6 +10,8 @@ interface ResultsPanelProps {
   isAnalyzing: boolean;
   pileData: PileData;
   loadCase: LoadCase;
+  soilProfile: SoilProfile;
+  analysisConfig: AnalysisConfig;
   onIncreaseDiameter?: () => void;
   onReduceLoad?: () => void;
   onRerunAnalysis?: () => Promise<void>;
@@ -27,6 +29,36 @@ interface MetricCard {
   description?: string;
 }
 
+// Head conditions that develop a restraint moment or a support reaction
+const rotationRestrainedHeads: BoundaryCondition[] = [
+  'fixed-head',
+  'rotational-restraint',
+  'specified-slope',
+  'deflection-slope',
+];
+const deflectionRestrainedHeads: BoundaryCondition[] = [
+  'pinned-head',
+  'specified-deflection',
+  'deflection-slope',
+];
+
+// Depth ranges as "top–bottom m" joined by commas, or "None"
+function formatDepthRanges(ranges: DepthRange[]): string {
+  if (ranges.length === 0) return 'None';
+  return ranges.map((range) => `${range.top.toFixed(2)}–${range.bottom.toFixed(2)} m`).join(', ');
+}
+
+// Index of the largest absolute value (results may be negative)
+function maxAbsIndex(values: number[]): number {
+  let maxIdx = 0;
+  for (let i = 1; i < values.length; i++) {
+    if (Math.abs(values[i]) > Math.abs(values[maxIdx])) {
+      maxIdx = i;
+    }
+  }
+  return maxIdx;
+}
+
 // Animated counter hook
 function useAnimatedCounter(
   targetValue: number,
@@ -107,6 +139,8 @@ function ResultsPanel({
   isAnalyzing,
   pileData,
   loadCase,
+  soilProfile,
+  analysisConfig,
 }: ResultsPanelProps) {
   const [activeTab, setActiveTab] = useState<ViewTab>('summary');
 
@@ -236,12 +270,11 @@ function ResultsPanel({
   ];
 
   // Find depth of maximum values
-  const maxDeflIdx = results.deflections.indexOf(results.maxDeflection);
+  const maxDeflIdx = maxAbsIndex(results.deflections);
   const maxDeflDepth = results.depths[maxDeflIdx];
-  const maxMomentIdx = results.moments.indexOf(
-    Math.max(...results.moments.map(Math.abs))
-  );
+  const maxMomentIdx = maxAbsIndex(results.moments);
   const maxMomentDepth = results.depths[maxMomentIdx];
+  const crushedIdx = results.sectionStates?.indexOf('ultimate') ?? -1;
 
   return (
     <div className="results-panel enhanced with-results">
@@ -361,10 +394,370 @@ function ResultsPanel({
                   <div className="finding-content">
                     <span className="finding-label">Pile Head Stiffness</span>
                     <span className="finding-value">
-                      {((loadCase.lateralLoad / 4.44822) / (results.deflectionAtLoad * 39.3701)).toFixed(1)} kips/in
+                      {Math.abs(results.deflectionAtLoad) > 1e-9
+                        ? `${((loadCase.lateralLoad / 4.44822) / (results.deflectionAtLoad * 39.3701)).toFixed(1)} kips/in`
+                        : 'Restrained'}
+                    </span>
+                  </div>
+                </div>
+                <div className="finding-card">
+                  <div className="finding-icon rotation">
+                    <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
+                      <path d="M10 3a7 7 0 106.3 4H14l3-4 3 4h-1.6A9 9 0 1110 1v2z" />
+                    </svg>
+                  </div>
+                  <div className="finding-content">
+                    <span className="finding-label">Pile Head Slope</span>
+                    <span className="finding-value">
+                      {(results.headSlope * 1000).toFixed(2)} mrad
                     </span>
                   </div>
                 </div>
+                {rotationRestrainedHeads.includes(analysisConfig.boundaryCondition) && (
+                  <div className="finding-card">
+                    <div className="finding-icon moment">
+                      <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
+                        <path d="M3 3h14v3H3zM8 6h4v11H8z" />
+                      </svg>
+                    </div>
+                    <div className="finding-content">
+                      <span className="finding-label">Head Restraint Moment</span>
+                      <span className="finding-value">
+                        {(results.restraintMoment / 1.35582).toFixed(1)} kip-ft
+                      </span>
+                    </div>
+                  </div>
+                )}
+                {deflectionRestrainedHeads.includes(analysisConfig.boundaryCondition) && (
+                  <div className="finding-card">
+                    <div className="finding-icon stiffness">
+                      <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
+                        <path d="M2 8h16v3H2zM10 11l-4 6h8z" />
+                      </svg>
+                    </div>
+                    <div className="finding-content">
+                      <span className="finding-label">Head Support Reaction</span>
+                      <span className="finding-value">
+                        {(results.restraintShear / 4.44822).toFixed(1)} kips
+                      </span>
+                    </div>
+                  </div>
+                )}
+                {results.buckling && (
+                  <div className="finding-card">
+                    <div className="finding-icon stiffness">
+                      <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
+                        <path d="M9 1h2v3c3 3 3 9 0 12v3H9v-3c3-3 3-9 0-12z" />
+                      </svg>
+                    </div>
+                    <div className="finding-content">
+                      <span className="finding-label">Buckling Load</span>
+                      <span className="finding-value">
+                        {results.buckling.criticalLoad !== null
+                          ? `${(results.buckling.criticalLoad / 4.44822).toFixed(0)} kips`
+                          : 'No buckling'}
+                      </span>
+                    </div>
+                  </div>
+                )}
+                {results.buckling && (
+                  <div className="finding-card">
+                    <div className="finding-icon stiffness">
+                      <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
+                        <path d="M2 17L17 2h-5v2h1.6L2 15.6zM16 5v5h2V2z" />
+                      </svg>
+                    </div>
+                    <div className="finding-content">
+                      <span className="finding-label">P-Delta Amplification</span>
+                      <span className="finding-value">
+                        {results.buckling.amplificationFactor !== null
+                          ? `${results.buckling.amplificationFactor.toFixed(2)}×`
+                          : 'Unstable: axial load exceeds buckling load'}
+                      </span>
+                    </div>
+                  </div>
+                )}
+                {results.axialCapacity && (
+                  <div className="finding-card">
+                    <div className="finding-icon stiffness">
+                      <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
+                        <path d="M9 1h2v12h3l-4 6-4-6h3z" />
+                      </svg>
+                    </div>
+                    <div className="finding-content">
+                      <span className="finding-label">Axial Capacity</span>
+                      <span className="finding-value">
+                        {(results.axialCapacity.compressionCapacity / 4.44822).toFixed(0)} kips compression,{' '}
+                        {(results.axialCapacity.upliftCapacity / 4.44822).toFixed(0)} kips uplift
+                        {results.axialCapacity.plugged !== null &&
+                          (results.axialCapacity.plugged ? ' (plugged)' : ' (unplugged)')}
+                      </span>
+                    </div>
+                  </div>
+                )}
+                {results.axialCapacity && results.axialCapacity.factorOfSafety !== null && (
+                  <div className="finding-card">
+                    <div className="finding-icon stiffness">
+                      <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
+                        <path d="M10 1l8 3v5c0 5-3.5 8.5-8 10-4.5-1.5-8-5-8-10V4z" />
+                      </svg>
+                    </div>
+                    <div className="finding-content">
+                      <span className="finding-label">Axial Factor of Safety</span>
+                      <span className="finding-value">{results.axialCapacity.factorOfSafety.toFixed(2)}</span>
+                    </div>
+                  </div>
+                )}
+                {results.axialCapacity?.warnings.map((warning) => (
+                  <div className="finding-card" key={warning}>
+                    <div className="finding-icon cracking">
+                      <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
+                        <path d="M10 2l9 16H1zM9 8v5h2V8zm0 6v2h2v-2z" />
+                      </svg>
+                    </div>
+                    <div className="finding-content">
+                      <span className="finding-label">Axial Capacity Warning</span>
+                      <span className="finding-value">{warning}</span>
+                    </div>
+                  </div>
+                ))}
+                {results.loadSettlement && (
+                  <div className="finding-card">
+                    <div className="finding-icon stiffness">
+                      <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
+                        <path d="M2 2h2v14h14v2H2zM6 13c3-1 6-4 8-10l2 1c-2 7-6 10-9 11z" />
+                      </svg>
+                    </div>
+                    <div className="finding-content">
+                      <span className="finding-label">Axial Head Settlement</span>
+                      <span className="finding-value">
+                        {results.loadSettlement.headSettlement !== null &&
+                        results.loadSettlement.headStiffness !== null
+                          ? `${(results.loadSettlement.headSettlement * 39.3701).toFixed(3)} in, ${(
+                              results.loadSettlement.headStiffness / 175.127
+                            ).toFixed(0)} kip/in`
+                          : results.loadSettlement.exceedsCapacity
+                            ? `Axial load exceeds ${(results.loadSettlement.ultimateLoad / 4.44822).toFixed(0)} kips`
+                            : `No axial load; initial ${(results.loadSettlement.initialStiffness / 175.127).toFixed(0)} kip/in`}
+                      </span>
+                    </div>
+                  </div>
+                )}
+                {results.downdrag && (
+                  <div className="finding-card">
+                    <div className="finding-icon cracking">
+                      <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
+                        <path d="M1 9h18v2H1zM9 1h2v5h3l-4 3-4-3h3zM9 19h2v-5h3l-4-3-4 3h3z" />
+                      </svg>
+                    </div>
+                    <div className="finding-content">
+                      <span className="finding-label">Neutral Plane</span>
+                      <span className="finding-value">
+                        {(results.downdrag.neutralPlaneDepth / 0.3048).toFixed(1)} ft, dragload{' '}
+                        {(results.downdrag.dragload / 4.44822).toFixed(0)} kips (max force{' '}
+                        {(results.downdrag.maxAxialForce / 4.44822).toFixed(0)} kips)
+                      </span>
+                    </div>
+                  </div>
+                )}
+                {results.downdrag && (
+                  <div className="finding-card">
+                    <div className="finding-icon stiffness">
+                      <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
+                        <path d="M9 1h2v11h4l-5 7-5-7h4z" />
+                      </svg>
+                    </div>
+                    <div className="finding-content">
+                      <span className="finding-label">Pile Settlement (Downdrag)</span>
+                      <span className="finding-value">
+                        {(results.downdrag.headSettlement * 39.3701).toFixed(2)} in at head,{' '}
+                        {(results.downdrag.tipSettlement * 39.3701).toFixed(2)} in at tip
+                        {!results.downdrag.converged && ' (not converged)'}
+                      </span>
+                    </div>
+                  </div>
+                )}
+                {results.loadSettlement && results.loadSettlement.tipMobilization !== null && (
+                  <div className="finding-card">
+                    <div className="finding-icon stiffness">
+                      <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
+                        <path d="M9 1h2v11h4l-5 7-5-7h4z" />
+                      </svg>
+                    </div>
+                    <div className="finding-content">
+                      <span className="finding-label">Tip Mobilization</span>
+                      <span className="finding-value">
+                        {(results.loadSettlement.tipMobilization * 100).toFixed(0)}% of end bearing (
+                        {((results.loadSettlement.tipLoad ?? 0) / 4.44822).toFixed(0)} kips)
+                      </span>
+                    </div>
+                  </div>
+                )}
+                {results.scour && (
+                  <div className="finding-card">
+                    <div className="finding-icon stiffness">
+                      <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
+                        <path d="M1 8h5l2 6h4l2-6h5v2h-4l-2 6H7l-2-6H1z" />
+                      </svg>
+                    </div>
+                    <div className="finding-content">
+                      <span className="finding-label">Scour</span>
+                      <span className="finding-value">
+                        Surface at {(results.scour.scourLevel / 0.3048).toFixed(1)} ft, max moment{' '}
+                        {(results.scour.unscoured.maxMoment / 1.35582).toFixed(0)} →{' '}
+                        {(results.scour.scoured.maxMoment / 1.35582).toFixed(0)} kip-ft
+                      </span>
+                    </div>
+                  </div>
+                )}
+                {results.cap && (
+                  <div className="finding-card">
+                    <div className="finding-icon stiffness">
+                      <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
+                        <path d="M1 2h18v3H1zM3 5h2l-2 13H1zM9 5h2v13H9zM15 5h2l2 13h-2z" />
+                      </svg>
+                    </div>
+                    <div className="finding-content">
+                      <span className="finding-label">Cap Movement</span>
+                      <span className="finding-value">
+                        {(results.cap.horizontalDisplacement * 39.3701).toFixed(3)} in across,{' '}
+                        {(results.cap.verticalDisplacement * 39.3701).toFixed(3)} in down,{' '}
+                        {results.cap.rotation.toExponential(2)} rad
+                      </span>
+                    </div>
+                  </div>
+                )}
+                {results.cap && (
+                  <div className="finding-card">
+                    <div className="finding-icon stiffness">
+                      <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
+                        <path d="M3 2h2v16H3zM9 2h2v16H9zM15 2h2v16h-2zM8 7h4v6H8z" />
+                      </svg>
+                    </div>
+                    <div className="finding-content">
+                      <span className="finding-label">Critical Pile (profiles shown)</span>
+                      <span className="finding-value">
+                        Pile {results.cap.criticalPile},{' '}
+                        {(results.cap.piles[results.cap.criticalPile - 1].axialForce / 4.44822).toFixed(0)} kips axial
+                      </span>
+                    </div>
+                  </div>
+                )}
+                {results.group && (
+                  <div className="finding-card">
+                    <div className="finding-icon stiffness">
+                      <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
+                        <path d="M1 2h18v3H1zM3 5h2v13H3zM9 5h2v13H9zM15 5h2v13h-2z" />
+                      </svg>
+                    </div>
+                    <div className="finding-content">
+                      <span className="finding-label">Pile Group</span>
+                      <span className="finding-value">
+                        {results.group.piles} piles, cap deflection{' '}
+                        {(results.group.capDeflection * 39.3701).toFixed(3)} in
+                      </span>
+                    </div>
+                  </div>
+                )}
+                {results.group && (
+                  <div className="finding-card">
+                    <div className="finding-icon stiffness">
+                      <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
+                        <path d="M3 2h2v16H3zM9 2h2v16H9zM15 2h2v16h-2zM8 7h4v6H8z" />
+                      </svg>
+                    </div>
+                    <div className="finding-content">
+                      <span className="finding-label">Critical Row (profiles shown)</span>
+                      <span className="finding-value">
+                        Row {results.group.criticalRow}, p<sub>m</sub> ={' '}
+                        {results.group.rows[results.group.criticalRow - 1].pMultiplier.toFixed(2)}
+                      </span>
+                    </div>
+                  </div>
+                )}
+                {results.baseShear !== undefined && (
+                  <div className="finding-card">
+                    <div className="finding-icon stiffness">
+                      <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
+                        <path d="M8 1h4v12H8zM2 15h16v2H2zM4 17l-2 2h2l2-2zm5 0l-2 2h2l2-2zm5 0l-2 2h2l2-2z" />
+                      </svg>
+                    </div>
+                    <div className="finding-content">
+                      <span className="finding-label">Base Resistance</span>
+                      <span className="finding-value">
+                        V = {(results.baseShear / 4.44822).toFixed(1)} kips, M ={' '}
+                        {((results.baseMoment ?? 0) / 1.35582).toFixed(1)} kip-ft
+                      </span>
+                    </div>
+                  </div>
+                )}
+                {results.crackedZones && (
+                  <div className="finding-card">
+                    <div className="finding-icon cracking">
+                      <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
+                        <path d="M7 2h6v16H7zM10 4l-2 4 3 2-2 5 1 0 2-5-3-2 2-4z" />
+                      </svg>
+                    </div>
+                    <div className="finding-content">
+                      <span className="finding-label">Cracked Zone</span>
+                      <span className="finding-value">{formatDepthRanges(results.crackedZones)}</span>
+                    </div>
+                  </div>
+                )}
+                {results.yieldedZones && (
+                  <div className="finding-card">
+                    <div className="finding-icon cracking">
+                      <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
+                        <path d="M7 2h6v6l-2 2 2 2v6H7v-6l2-2-2-2z" />
+                      </svg>
+                    </div>
+                    <div className="finding-content">
+                      <span className="finding-label">Yielded Zone</span>
+                      <span className="finding-value">{formatDepthRanges(results.yieldedZones)}</span>
+                    </div>
+                  </div>
+                )}
+                {results.plasticHinges && (
+                  <div className="finding-card">
+                    <div className="finding-icon cracking">
+                      <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
+                        <path d="M8 1h4v6H8zM8 13h4v6H8zM10 6.5a3.5 3.5 0 110 7 3.5 3.5 0 010-7z" />
+                      </svg>
+                    </div>
+                    <div className="finding-content">
+                      <span className="finding-label">Plastic Hinges</span>
+                      <span className="finding-value">{formatDepthRanges(results.plasticHinges)}</span>
+                    </div>
+                  </div>
+                )}
+                {crushedIdx >= 0 && (
+                  <div className="finding-card">
+                    <div className="finding-icon cracking">
+                      <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
+                        <path d="M10 2l9 16H1zM9 8v5h2V8zm0 6v2h2v-2z" />
+                      </svg>
+                    </div>
+                    <div className="finding-content">
+                      <span className="finding-label">Section Capacity Exceeded</span>
+                      <span className="finding-value">
+                        Concrete crushing at {results.depths[crushedIdx].toFixed(2)} m depth
+                      </span>
+                    </div>
+                  </div>
+                )}
+                {results.pushoverStopped && (
+                  <div className="finding-card">
+                    <div className="finding-icon cracking">
+                      <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
+                        <path d="M10 2l9 16H1zM9 8v5h2V8zm0 6v2h2v-2z" />
+                      </svg>
+                    </div>
+                    <div className="finding-content">
+                      <span className="finding-label">Load Stepping Stopped</span>
+                      <span className="finding-value">{results.pushoverStopped}</span>
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -423,6 +816,7 @@ function ResultsPanel({
               <PileElevation
                 pileData={pileData}
                 loadCase={loadCase}
+                soilProfile={soilProfile}
                 results={results}
                 width={400}
                 height={550}
@@ -477,7 +871,7 @@ function ResultsPanel({
                 </div>
                 <div className="data-item">
                   <span className="data-label">Flexural Rigidity (EI)</span>
-                  <span className="data-value">{(pileData.EI * 413.4).toLocaleString(undefined, {maximumFractionDigits: 0})} kip-ft<sup>2</sup></span>
+                  <span className="data-value">{(pileData.EI / 0.413253).toLocaleString(undefined, {maximumFractionDigits: 0})} kip-ft<sup>2</sup></span>
                 </div>
                 <div className="data-item">
                   <span className="data-label">Material</span>
@@ -491,6 +885,238 @@ function ResultsPanel({
                   <span className="data-label">Applied Moment</span>
                   <span className="data-value">{(loadCase.moment / 1.35582).toFixed(1)} kip-ft</span>
                 </div>
+                <div className="data-item">
+                  <span className="data-label">Load Depth</span>
+                  <span className="data-value">{(loadCase.loadDepth / 0.3048).toFixed(2)} ft</span>
+                </div>
+              </div>
+            </div>
+
+            {results.momentCurvature && (
+              <div className="data-section">
+                <h3>Reinforced Concrete Section</h3>
+                <div className="data-grid">
+                  <div className="data-item">
+                    <span className="data-label">Cracking Moment</span>
+                    <span className="data-value">
+                      {(results.momentCurvature.crackingMoment / 1.35582).toFixed(1)} kip-ft
+                    </span>
+                  </div>
+                  <div className="data-item">
+                    <span className="data-label">First Yield Moment</span>
+                    <span className="data-value">
+                      {(results.momentCurvature.yieldMoment / 1.35582).toFixed(1)} kip-ft
+                    </span>
+                  </div>
+                  <div className="data-item">
+                    <span className="data-label">Ultimate Moment</span>
+                    <span className="data-value">
+                      {(results.momentCurvature.ultimateMoment / 1.35582).toFixed(1)} kip-ft
+                    </span>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {results.steelCapacity && (
+              <div className="data-section">
+                <h3>Steel Section</h3>
+                <div className="data-grid">
+                  <div className="data-item">
+                    <span className="data-label">Yield Moment My</span>
+                    <span className="data-value">
+                      {(results.steelCapacity.yieldMoment / 1.35582).toFixed(1)} kip-ft
+                    </span>
+                  </div>
+                  <div className="data-item">
+                    <span className="data-label">Plastic Moment Mp</span>
+                    <span className="data-value">
+                      {(results.steelCapacity.plasticMoment / 1.35582).toFixed(1)} kip-ft
+                    </span>
+                  </div>
+                  <div className="data-item">
+                    <span className="data-label">Squash Load Py</span>
+                    <span className="data-value">
+                      {(results.steelCapacity.axialYield / 4.44822).toFixed(0)} kips
+                    </span>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {results.pushover.length > 1 && (
+              <div className="data-section">
+                <h3>Pushover Steps</h3>
+                <div className="table-container">
+                  <table className="data-table">
+                    <thead>
+                      <tr>
+                        <th>Load Factor</th>
+                        <th>Lateral Load (kips)</th>
+                        <th>Applied Moment (kip-ft)</th>
+                        <th>Head Deflection (in)</th>
+                        <th>Head Rotation (rad)</th>
+                        <th>Max Moment (kip-ft)</th>
+                        <th>at Depth (ft)</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {results.pushover.map((step, idx) => (
+                        <tr key={idx}>
+                          <td>{step.loadFactor.toFixed(2)}</td>
+                          <td>{(step.lateralLoad / 4.44822).toFixed(1)}</td>
+                          <td>{(step.moment / 1.35582).toFixed(1)}</td>
+                          <td>{(step.headDeflection * 39.3701).toFixed(4)}</td>
+                          <td>{step.headRotation.toExponential(3)}</td>
+                          <td>{(step.maxMoment / 1.35582).toFixed(1)}</td>
+                          <td>{(step.maxMomentDepth / 0.3048).toFixed(2)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {results.scour && (
+              <div className="data-section">
+                <h3>Scour Comparison</h3>
+                <div className="table-container">
+                  <table className="data-table">
+                    <thead>
+                      <tr>
+                        <th>Case</th>
+                        <th>Soil Surface (ft)</th>
+                        <th>Head Deflection (in)</th>
+                        <th>Max Deflection (in)</th>
+                        <th>Max Moment (kip-ft)</th>
+                        <th>at Depth (ft)</th>
+                        <th>Max Shear (kips)</th>
+                        <th>Axial Capacity (kips)</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {(
+                        [
+                          ['Unscoured', results.scour.unscoured, results.scour.generalScourLevel - results.scour.scourDepth],
+                          ['Scoured', results.scour.scoured, results.scour.scourLevel],
+                        ] as const
+                      ).map(([name, summary, surface]) => (
+                        <tr key={name}>
+                          <td>
+                            {name}
+                            {!summary.converged && ' (not converged)'}
+                          </td>
+                          <td>{(surface / 0.3048).toFixed(2)}</td>
+                          <td>{(summary.headDeflection * 39.3701).toFixed(4)}</td>
+                          <td>{(summary.maxDeflection * 39.3701).toFixed(4)}</td>
+                          <td>{(summary.maxMoment / 1.35582).toFixed(1)}</td>
+                          <td>{(summary.maxMomentDepth / 0.3048).toFixed(2)}</td>
+                          <td>{(summary.maxShear / 4.44822).toFixed(1)}</td>
+                          <td>{(summary.compressionCapacity / 4.44822).toFixed(0)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {results.cap && (
+              <div className="data-section">
+                <h3>Pile Cap Loads</h3>
+                <div className="table-container">
+                  <table className="data-table">
+                    <thead>
+                      <tr>
+                        <th>Pile</th>
+                        <th>Position (ft)</th>
+                        <th>Batter</th>
+                        <th>Axial (kips)</th>
+                        <th>Lateral (kips)</th>
+                        <th>Head Moment (kip-ft)</th>
+                        <th>Horizontal (kips)</th>
+                        <th>Vertical (kips)</th>
+                        <th>Max Moment (kip-ft)</th>
+                        <th>at Depth (ft)</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {results.cap.piles.map((pile, idx) => (
+                        <tr key={pile.id}>
+                          <td>{idx + 1}</td>
+                          <td>{(pile.position / 0.3048).toFixed(2)}</td>
+                          <td>{pile.batter.toFixed(2)}</td>
+                          <td>{(pile.axialForce / 4.44822).toFixed(1)}</td>
+                          <td>{(pile.lateralForce / 4.44822).toFixed(1)}</td>
+                          <td>{(pile.headMoment / 1.35582).toFixed(1)}</td>
+                          <td>{(pile.horizontalForce / 4.44822).toFixed(1)}</td>
+                          <td>{(pile.verticalForce / 4.44822).toFixed(1)}</td>
+                          <td>{(pile.maxMoment / 1.35582).toFixed(1)}</td>
+                          <td>{(pile.maxMomentDepth / 0.3048).toFixed(2)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {results.group && (
+              <div className="data-section">
+                <h3>Pile Group Load Distribution</h3>
+                <div className="table-container">
+                  <table className="data-table">
+                    <thead>
+                      <tr>
+                        <th>Row</th>
+                        <th>p-Multiplier</th>
+                        <th>Load per Pile (kips)</th>
+                        <th>Share of Group Load</th>
+                        <th>Head Deflection (in)</th>
+                        <th>Max Moment (kip-ft)</th>
+                        <th>at Depth (ft)</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {results.group.rows.map((row) => (
+                        <tr key={row.row}>
+                          <td>{row.row}</td>
+                          <td>{row.pMultiplier.toFixed(2)}</td>
+                          <td>{(row.headShear / 4.44822).toFixed(1)}</td>
+                          <td>{(row.loadShare * 100).toFixed(1)}%</td>
+                          <td>{(row.headDeflection * 39.3701).toFixed(4)}</td>
+                          <td>{(row.maxMoment / 1.35582).toFixed(1)}</td>
+                          <td>{(row.maxMomentDepth / 0.3048).toFixed(2)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            <div className="data-section">
+              <h3>Load Application Points</h3>
+              <div className="table-container">
+                <table className="data-table">
+                  <thead>
+                    <tr>
+                      <th>Load</th>
+                      <th>Depth (ft)</th>
+                      <th>Deflection (in)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {results.loadPointDeflections.map((point, idx) => (
+                      <tr key={idx}>
+                        <td>{idx === 0 ? 'Primary' : `Point load ${idx}`}</td>
+                        <td>{(point.depth / 0.3048).toFixed(2)}</td>
+                        <td>{(point.deflection * 39.3701).toFixed(4)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
               </div>
             </div>
 
@@ -506,6 +1132,7 @@ function ResultsPanel({
                       <th>Moment (kip-ft)</th>
                       <th>Shear (kips)</th>
                       <th>Soil Reaction (kip/ft)</th>
+                      <th>σ'v (psf)</th>
                     </tr>
                   </thead>
                   <tbody>
@@ -517,6 +1144,7 @@ function ResultsPanel({
                         <td>{(results.moments[idx] / 1.35582).toFixed(2)}</td>
                         <td>{(results.shears[idx] / 4.44822).toFixed(2)}</td>
                         <td>{(results.soilReactions[idx] / 1.45939).toFixed(2)}</td>
+                        <td>{(results.verticalStress[idx] / 0.0478803).toFixed(0)}</td>
                       </tr>
                     ))}
                   </tbody>
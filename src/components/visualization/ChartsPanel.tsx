@@ -1,6 +1,6 @@
 import { useMemo, useState } from 'react';
 import Plot from 'react-plotly.js';
-import { AnalysisResults } from '../../types/pile-types';
+import { AnalysisResults, CapPileResult } from '../../types/pile-types';
 import './visualization.css';
 
 interface ChartsPanelProps {
@@ -57,6 +57,11 @@ function ChartsPanel({ results }: ChartsPanelProps) {
     () => results.shears.map((s) => s / 4.44822), // kN to kips
     [results.shears]
   );
+  const soilMovementsIn = useMemo(
+    () => results.soilMovements.map((d) => d * 39.3701), // m to in
+    [results.soilMovements]
+  );
+  const hasSoilMovement = soilMovementsIn.some((d) => d !== 0);
   const reactionsKipFt = useMemo(
     () => results.soilReactions.map((r) => r / 1.45939), // kN/m to kip/ft
     [results.soilReactions]
@@ -143,10 +148,27 @@ function ChartsPanel({ results }: ChartsPanelProps) {
           name: 'Max Deflection',
           hovertemplate: `Max: ${maxPoint.value.toFixed(3)} in<br>at ${maxPoint.depth.toFixed(2)} ft<extra></extra>`,
         },
+        ...(hasSoilMovement
+          ? [
+              {
+                x: soilMovementsIn,
+                y: depthsFt,
+                type: 'scatter' as const,
+                mode: 'lines' as const,
+                line: { color: '#a16207', width: 2, dash: 'dash' as const },
+                name: 'Soil Movement',
+                hovertemplate: 'Depth: %{y:.2f} ft<br>Soil movement: %{x:.3f} in<extra></extra>',
+              },
+            ]
+          : []),
       ],
-      layout: getLayout(chartConfigs[0]),
+      layout: {
+        ...getLayout(chartConfigs[0]),
+        showlegend: hasSoilMovement,
+        legend: { x: 1, xanchor: 'right' as const, y: 0, font: { color: colors.text } },
+      },
     };
-  }, [deflectionsIn, depthsFt, maxPoints]);
+  }, [deflectionsIn, depthsFt, maxPoints, soilMovementsIn, hasSoilMovement]);
 
   // Moment chart
   const momentChart = useMemo(() => {
@@ -238,6 +260,370 @@ function ChartsPanel({ results }: ChartsPanelProps) {
     };
   }, [reactionsKipFt, depthsFt, maxPoints]);
 
+  // Response of every pile under a pile cap, one trace per pile
+  const capCharts = useMemo(() => {
+    const cap = results.cap;
+    if (!cap) return null;
+
+    const palette = [colors.primary, colors.secondary, colors.warning, colors.danger, colors.primaryLight];
+    const traces = (values: (pile: CapPileResult) => number[], unit: string) =>
+      cap.piles.map((pile, idx) => ({
+        x: values(pile),
+        y: depthsFt,
+        type: 'scatter' as const,
+        mode: 'lines' as const,
+        line: { color: palette[idx % palette.length], width: idx + 1 === cap.criticalPile ? 3 : 2 },
+        name: `Pile ${idx + 1}`,
+        hovertemplate: `Pile ${idx + 1}: %{x:.3f} ${unit}<br>at %{y:.2f} ft<extra></extra>`,
+      }));
+
+    const withLegend = (config: ChartConfig) => ({
+      ...getLayout(config),
+      showlegend: true,
+      legend: { font: { color: colors.text }, orientation: 'h' as const },
+    });
+
+    return [
+      {
+        data: traces((pile) => pile.deflections.map((d) => d * 39.3701), 'in'),
+        layout: withLegend({
+          id: 'deflection',
+          title: 'Cap Pile Deflections',
+          xLabel: 'Deflection (in)',
+          yLabel: 'Distance Down Pile (ft)',
+        }),
+      },
+      {
+        data: traces((pile) => pile.moments.map((m) => m / 1.35582), 'kip-ft'),
+        layout: withLegend({
+          id: 'moment',
+          title: 'Cap Pile Moments',
+          xLabel: 'Moment (kip-ft)',
+          yLabel: 'Distance Down Pile (ft)',
+        }),
+      },
+    ];
+  }, [results.cap, depthsFt]);
+
+  // Pile head pushover curve from the load steps, starting at the origin.
+  // Moment-only load cases are plotted against the applied moment.
+  const pushoverChart = useMemo(() => {
+    const steps = results.pushover ?? [];
+    if (steps.length === 0) return null;
+
+    const byMoment = steps.every((step) => step.lateralLoad === 0) && steps.some((step) => step.moment !== 0);
+    const loads = [0, ...steps.map((step) => (byMoment ? step.moment / 1.35582 : step.lateralLoad / 4.44822))];
+    const headDeflectionsIn = [0, ...steps.map((step) => step.headDeflection * 39.3701)];
+    const loadLabel = byMoment ? 'Applied Moment (kip-ft)' : 'Lateral Load (kips)';
+    const loadUnit = byMoment ? 'kip-ft' : 'kips';
+
+    return {
+      data: [
+        {
+          x: headDeflectionsIn,
+          y: loads,
+          type: 'scatter' as const,
+          mode: 'lines+markers' as const,
+          line: { color: colors.primary, width: 3 },
+          marker: {
+            color: [colors.primary, ...steps.map((step) => (step.converged ? colors.primary : colors.warning))],
+            size: 6,
+          },
+          name: 'Pushover',
+          hovertemplate: `Head deflection: %{x:.3f} in<br>Load: %{y:.1f} ${loadUnit}<extra></extra>`,
+        },
+      ],
+      layout: {
+        ...getLayout({
+          id: 'deflection',
+          title: 'Lateral Load vs Head Deflection',
+          xLabel: 'Head Deflection (in)',
+          yLabel: loadLabel,
+        }),
+        yaxis: {
+          title: { text: loadLabel, font: { color: colors.text } },
+          gridcolor: colors.grid,
+          color: colors.text,
+        },
+      },
+    };
+  }, [results.pushover]);
+
+  // Head deflection growth with axial load (buckling analysis)
+  const axialChart = useMemo(() => {
+    const buckling = results.buckling;
+    if (!buckling || buckling.deflectionCurve.length === 0) return null;
+
+    const axialKips = buckling.deflectionCurve.map((point) => point.axialLoad / 4.44822); // kN to kips
+    const headDeflectionsIn = buckling.deflectionCurve.map((point) => point.headDeflection * 39.3701);
+    const criticalKips = buckling.criticalLoad !== null ? buckling.criticalLoad / 4.44822 : null;
+
+    return {
+      data: [
+        {
+          x: axialKips,
+          y: headDeflectionsIn,
+          type: 'scatter' as const,
+          mode: 'lines+markers' as const,
+          line: { color: colors.primary, width: 3 },
+          marker: { color: colors.primary, size: 6 },
+          name: 'Head Deflection',
+          hovertemplate: 'Axial: %{x:.0f} kips<br>Head deflection: %{y:.3f} in<extra></extra>',
+        },
+      ],
+      layout: {
+        ...getLayout({
+          id: 'deflection',
+          title: 'Head Deflection vs Axial Load',
+          xLabel: 'Axial Load (kips)',
+          yLabel: 'Head Deflection (in)',
+        }),
+        yaxis: {
+          title: { text: 'Head Deflection (in)', font: { color: colors.text } },
+          gridcolor: colors.grid,
+          color: colors.text,
+        },
+        shapes:
+          criticalKips !== null
+            ? [
+                {
+                  type: 'line' as const,
+                  x0: criticalKips,
+                  x1: criticalKips,
+                  yref: 'paper' as const,
+                  y0: 0,
+                  y1: 1,
+                  line: { color: colors.danger, width: 2, dash: 'dash' as const },
+                },
+              ]
+            : [],
+      },
+    };
+  }, [results.buckling]);
+
+  // Compression and uplift capacity with the pile tip at each depth
+  const capacityChart = useMemo(() => {
+    const capacity = results.axialCapacity;
+    if (!capacity) return null;
+
+    const toKips = (values: number[]) => values.map((v) => v / 4.44822); // kN to kips
+    const trace = (values: number[], name: string, color: string, dash: 'solid' | 'dash') => ({
+      x: toKips(values),
+      y: depthsFt,
+      type: 'scatter' as const,
+      mode: 'lines' as const,
+      line: { color, width: dash === 'solid' ? 3 : 2, dash },
+      name,
+      hovertemplate: `${name}: %{x:.0f} kips<br>Tip at %{y:.2f} ft<extra></extra>`,
+    });
+
+    return {
+      data: [
+        trace(capacity.compression, 'Compression', colors.primary, 'solid'),
+        trace(capacity.uplift, 'Uplift', colors.secondary, 'solid'),
+        trace(capacity.endBearing, 'End Bearing', colors.warning, 'dash'),
+      ],
+      layout: {
+        ...getLayout({
+          id: 'deflection',
+          title: 'Axial Capacity vs Depth',
+          xLabel: 'Capacity (kips)',
+          yLabel: 'Tip Depth (ft)',
+        }),
+        showlegend: true,
+        legend: { font: { color: colors.text }, orientation: 'h' as const },
+      },
+    };
+  }, [results.axialCapacity, depthsFt]);
+
+  // Axial head load-settlement curve from the origin, with the response at
+  // the axial load marked
+  const settlementChart = useMemo(() => {
+    const transfer = results.loadSettlement;
+    if (!transfer) return null;
+
+    const settlementsIn = [0, ...transfer.curve.map((point) => point.headSettlement * 39.3701)];
+    const loadsKips = [0, ...transfer.curve.map((point) => point.headLoad / 4.44822)];
+    const headSettlement = transfer.headSettlement;
+
+    return {
+      data: [
+        {
+          x: settlementsIn,
+          y: loadsKips,
+          type: 'scatter' as const,
+          mode: 'lines' as const,
+          line: { color: colors.primary, width: 3 },
+          name: 'Load-Settlement',
+          hovertemplate: 'Settlement: %{x:.3f} in<br>Head load: %{y:.0f} kips<extra></extra>',
+        },
+        ...(headSettlement !== null
+          ? [
+              {
+                x: [headSettlement * 39.3701],
+                y: [transfer.axialForces[0] / 4.44822],
+                type: 'scatter' as const,
+                mode: 'markers' as const,
+                marker: { color: colors.danger, size: 10 },
+                name: 'Axial Load',
+                hovertemplate: 'Axial load: %{y:.0f} kips<br>Settlement: %{x:.3f} in<extra></extra>',
+              },
+            ]
+          : []),
+      ],
+      layout: {
+        ...getLayout({
+          id: 'deflection',
+          title: 'Axial Head Load vs Settlement',
+          xLabel: 'Head Settlement (in)',
+          yLabel: 'Head Load (kips)',
+        }),
+        yaxis: {
+          title: { text: 'Head Load (kips)', font: { color: colors.text } },
+          gridcolor: colors.grid,
+          color: colors.text,
+        },
+      },
+    };
+  }, [results.loadSettlement]);
+
+  // Axial force down the pile under the axial load
+  const axialForceChart = useMemo(() => {
+    const transfer = results.loadSettlement;
+    if (!transfer || transfer.axialForces.length === 0) return null;
+
+    return {
+      data: [
+        {
+          x: transfer.axialForces.map((force) => force / 4.44822), // kN to kips
+          y: depthsFt,
+          type: 'scatter' as const,
+          mode: 'lines' as const,
+          line: { color: colors.primary, width: 3 },
+          name: 'Axial Force',
+          hovertemplate: 'Axial force: %{x:.1f} kips<br>at %{y:.2f} ft<extra></extra>',
+        },
+      ],
+      layout: getLayout({
+        id: 'deflection',
+        title: 'Axial Force vs Depth',
+        xLabel: 'Axial Force (kips)',
+        yLabel: 'Depth (ft)',
+      }),
+    };
+  }, [results.loadSettlement, depthsFt]);
+
+  // Downdrag: axial force and pile/soil settlement with the neutral plane
+  const downdragCharts = useMemo(() => {
+    const downdrag = results.downdrag;
+    if (!downdrag) return null;
+
+    const neutralPlaneFt = downdrag.neutralPlaneDepth / 0.3048;
+    const neutralPlane = [
+      {
+        type: 'line' as const,
+        xref: 'paper' as const,
+        x0: 0,
+        x1: 1,
+        y0: neutralPlaneFt,
+        y1: neutralPlaneFt,
+        line: { color: colors.danger, width: 2, dash: 'dash' as const },
+      },
+    ];
+    const profile = (values: number[], name: string, color: string, unit: string) => ({
+      x: values,
+      y: depthsFt,
+      type: 'scatter' as const,
+      mode: 'lines' as const,
+      line: { color, width: 3 },
+      name,
+      hovertemplate: `${name}: %{x:.3f} ${unit}<br>at %{y:.2f} ft<extra></extra>`,
+    });
+
+    return [
+      {
+        data: [profile(downdrag.axialForces.map((f) => f / 4.44822), 'Axial Force', colors.primary, 'kips')],
+        layout: {
+          ...getLayout({
+            id: 'deflection',
+            title: 'Downdrag Axial Force',
+            xLabel: 'Axial Force (kips)',
+            yLabel: 'Depth (ft)',
+          }),
+          shapes: neutralPlane,
+        },
+      },
+      {
+        data: [
+          profile(downdrag.settlements.map((w) => w * 39.3701), 'Pile', colors.primary, 'in'),
+          profile(downdrag.soilSettlements.map((w) => w * 39.3701), 'Soil', '#a16207', 'in'),
+        ],
+        layout: {
+          ...getLayout({
+            id: 'deflection',
+            title: 'Pile and Soil Settlement',
+            xLabel: 'Settlement (in)',
+            yLabel: 'Depth (ft)',
+          }),
+          shapes: neutralPlane,
+          showlegend: true,
+          legend: { font: { color: colors.text }, orientation: 'h' as const },
+        },
+      },
+    ];
+  }, [results.downdrag, depthsFt]);
+
+  // Scour: unscoured and scoured deflection and moment with the scoured surface
+  const scourCharts = useMemo(() => {
+    const scour = results.scour;
+    if (!scour) return null;
+
+    const scourLevelFt = scour.scourLevel / 0.3048;
+    const scourLine = [
+      {
+        type: 'line' as const,
+        xref: 'paper' as const,
+        x0: 0,
+        x1: 1,
+        y0: scourLevelFt,
+        y1: scourLevelFt,
+        line: { color: colors.danger, width: 2, dash: 'dash' as const },
+      },
+    ];
+    const profile = (values: number[], name: string, color: string, unit: string) => ({
+      x: values,
+      y: depthsFt,
+      type: 'scatter' as const,
+      mode: 'lines' as const,
+      line: { color, width: 3 },
+      name,
+      hovertemplate: `${name}: %{x:.3f} ${unit}<br>at %{y:.2f} ft<extra></extra>`,
+    });
+    const layout = (title: string, xLabel: string) => ({
+      ...getLayout({ id: 'deflection', title, xLabel, yLabel: 'Depth (ft)' }),
+      shapes: scourLine,
+      showlegend: true,
+      legend: { font: { color: colors.text }, orientation: 'h' as const },
+    });
+
+    return [
+      {
+        data: [
+          profile(scour.unscoured.deflections.map((y) => y * 39.3701), 'Unscoured', colors.text, 'in'),
+          profile(scour.scoured.deflections.map((y) => y * 39.3701), 'Scoured', colors.primary, 'in'),
+        ],
+        layout: layout('Deflection With and Without Scour', 'Deflection (in)'),
+      },
+      {
+        data: [
+          profile(scour.unscoured.moments.map((m) => m / 1.35582), 'Unscoured', colors.text, 'kip-ft'),
+          profile(scour.scoured.moments.map((m) => m / 1.35582), 'Scoured', colors.primary, 'kip-ft'),
+        ],
+        layout: layout('Moment With and Without Scour', 'Moment (kip-ft)'),
+      },
+    ];
+  }, [results.scour, depthsFt]);
+
   const charts = {
     deflection: deflectionChart,
     moment: momentChart,
@@ -325,6 +711,109 @@ function ChartsPanel({ results }: ChartsPanelProps) {
         </div>
       )}
 
+      {capCharts && (
+        <div className="charts-grid">
+          {capCharts.map((chart, idx) => (
+            <div key={idx} className="chart-card">
+              <Plot
+                data={chart.data}
+                layout={chart.layout}
+                config={plotConfig}
+                useResizeHandler
+                style={{ width: '100%', height: '300px' }}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {pushoverChart && (
+        <div className="chart-card">
+          <Plot
+            data={pushoverChart.data}
+            layout={pushoverChart.layout}
+            config={plotConfig}
+            useResizeHandler
+            style={{ width: '100%', height: '300px' }}
+          />
+        </div>
+      )}
+
+      {capacityChart && (
+        <div className="chart-card">
+          <Plot
+            data={capacityChart.data}
+            layout={capacityChart.layout}
+            config={plotConfig}
+            useResizeHandler
+            style={{ width: '100%', height: '300px' }}
+          />
+        </div>
+      )}
+
+      {(settlementChart || axialForceChart) && (
+        <div className="charts-grid">
+          {[settlementChart, axialForceChart].map(
+            (chart, idx) =>
+              chart && (
+                <div key={idx} className="chart-card">
+                  <Plot
+                    data={chart.data}
+                    layout={chart.layout}
+                    config={plotConfig}
+                    useResizeHandler
+                    style={{ width: '100%', height: '300px' }}
+                  />
+                </div>
+              )
+          )}
+        </div>
+      )}
+
+      {scourCharts && (
+        <div className="charts-grid">
+          {scourCharts.map((chart, idx) => (
+            <div key={idx} className="chart-card">
+              <Plot
+                data={chart.data}
+                layout={chart.layout}
+                config={plotConfig}
+                useResizeHandler
+                style={{ width: '100%', height: '300px' }}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {downdragCharts && (
+        <div className="charts-grid">
+          {downdragCharts.map((chart, idx) => (
+            <div key={idx} className="chart-card">
+              <Plot
+                data={chart.data}
+                layout={chart.layout}
+                config={plotConfig}
+                useResizeHandler
+                style={{ width: '100%', height: '300px' }}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {axialChart && (
+        <div className="chart-card">
+          <Plot
+            data={axialChart.data}
+            layout={axialChart.layout}
+            config={plotConfig}
+            useResizeHandler
+            style={{ width: '100%', height: '300px' }}
+          />
+        </div>
+      )}
+
       <div className="charts-legend">
         <div className="legend-item">
           <span className="legend-marker" style={{ backgroundColor: colors.danger }}></span>
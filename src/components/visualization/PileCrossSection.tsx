@@ -278,7 +278,7 @@ function PileCrossSection({ pileData, size = 250 }: PileCrossSectionProps) {
         <div className="property-row highlight">
           <span className="property-label">EI:</span>
           <span className="property-value">
-            {formatNumber(EI * 413.4)} kip-ft<sup>2</sup>
+            {formatNumber(EI / 0.413253)} kip-ft<sup>2</sup>
           </span>
         </div>
       </div>
@@ -1,10 +1,11 @@
 import { useMemo } from 'react';
-import { PileData, LoadCase, AnalysisResults, PileMaterial } from '../../types/pile-types';
+import { PileData, LoadCase, SoilProfile, AnalysisResults, PileMaterial } from '../../types/pile-types';
 import './visualization.css';
 
 interface PileElevationProps {
   pileData: PileData;
   loadCase: LoadCase;
+  soilProfile?: SoilProfile;
   results?: AnalysisResults | null;
   width?: number;
   height?: number;
@@ -21,12 +22,16 @@ const materialColors: Record<PileMaterial, string> = {
 function PileElevation({
   pileData,
   loadCase,
+  soilProfile,
   results,
   width = 350,
   height = 500,
 }: PileElevationProps) {
   const { length, diameter, material } = pileData;
-  const { lateralLoad, moment } = loadCase;
+  const sections = pileData.sections ?? [];
+  const { lateralLoad, moment, loadDepth } = loadCase;
+  const pointLoads = loadCase.pointLoads ?? [];
+  const distributedLoads = loadCase.distributedLoads ?? [];
 
   // Calculate dimensions for SVG
   const dimensions = useMemo(() => {
@@ -85,6 +90,23 @@ function PileElevation({
     return points.join(' ');
   }, [results, dimensions]);
 
+  // Yielded nodes and plastic hinges along the deflected shape
+  const yieldMarks = useMemo(() => {
+    if (!results || !results.sectionStates) return [];
+
+    return results.sectionStates.flatMap((state, i) =>
+      state === 'yielded' || state === 'ultimate' || state === 'plastic'
+        ? [
+            {
+              x: dimensions.pileCenterX + results.deflections[i] * dimensions.deflectionScale,
+              y: dimensions.pileTop + results.depths[i] * dimensions.verticalScale,
+              hinge: state === 'plastic',
+            },
+          ]
+        : []
+    );
+  }, [results, dimensions]);
+
   // Depth markers
   const depthMarkers = useMemo(() => {
     const markers: { depth: number; y: number }[] = [];
@@ -105,6 +127,84 @@ function PileElevation({
   // Load arrow dimensions
   const loadArrowLength = Math.min(80, Math.max(30, Math.abs(lateralLoad) / 2));
   const momentArcRadius = 25;
+  const loadY = dimensions.pileTop + loadDepth * dimensions.verticalScale;
+
+  // Ground line through the pile head, drawn at the true slope angle and
+  // falling toward the loading side (+x) when the load acts downslope
+  const ground = useMemo(() => {
+    const left = dimensions.padding.left - 20;
+    const right = width - dimensions.padding.right + 20;
+    const slope = soilProfile?.groundSlope ?? 0;
+    const direction = soilProfile?.slopeDirection ?? 'downslope';
+    const fall = Math.tan((slope * Math.PI) / 180) * (direction === 'downslope' ? 1 : -1);
+    const yAt = (x: number) => dimensions.pileTop + (x - dimensions.pileCenterX) * fall;
+    const bottom = dimensions.pileTop + dimensions.pileHeight;
+
+    return {
+      slope,
+      direction,
+      left,
+      right,
+      yLeft: yAt(left),
+      yRight: yAt(right),
+      soil: `M ${left} ${yAt(left)} L ${right} ${yAt(right)} L ${right} ${bottom} L ${left} ${bottom} Z`,
+      hatch: `M ${left} ${yAt(left) - 15} L ${right} ${yAt(right) - 15} L ${right} ${yAt(right)} L ${left} ${yAt(left)} Z`,
+    };
+  }, [soilProfile, width, dimensions]);
+
+  // Section boundaries (unique depths strictly inside the pile) and labels
+  const sectionMarks = useMemo(() => {
+    const boundaryDepths = Array.from(
+      new Set(sections.flatMap((section) => [section.startDepth, section.endDepth]))
+    ).filter((depth) => depth > 0 && depth < length);
+
+    return {
+      boundaries: boundaryDepths.map((depth) => dimensions.pileTop + depth * dimensions.verticalScale),
+      labels: sections.map((section) => {
+        const top = (section.diameter * 39.3701).toFixed(0);
+        const bottom = ((section.endDiameter ?? section.diameter) * 39.3701).toFixed(0);
+        return {
+          y: dimensions.pileTop + ((section.startDepth + section.endDepth) / 2) * dimensions.verticalScale,
+          text: top === bottom ? `Ø${top} in` : `Ø${top}→${bottom} in`,
+        };
+      }),
+    };
+  }, [sections, length, dimensions]);
+
+  // Distributed load diagrams drawn to the left of the pile
+  const distributedShapes = useMemo(() => {
+    const maxIntensity = Math.max(
+      0,
+      ...distributedLoads.map((load) => Math.max(Math.abs(load.topIntensity), Math.abs(load.bottomIntensity)))
+    );
+    if (maxIntensity === 0) return [];
+
+    const baseX = dimensions.pileLeft - 5;
+    const intensityScale = 40 / maxIntensity; // Largest intensity drawn 40px wide
+
+    return distributedLoads.map((load) => {
+      const yTop = dimensions.pileTop + load.topDepth * dimensions.verticalScale;
+      const yBottom = dimensions.pileTop + load.bottomDepth * dimensions.verticalScale;
+      const xTop = baseX - Math.abs(load.topIntensity) * intensityScale;
+      const xBottom = baseX - Math.abs(load.bottomIntensity) * intensityScale;
+
+      // A few arrows across the segment
+      const arrows = [0.1, 0.5, 0.9].map((t) => ({
+        x: xTop + (xBottom - xTop) * t,
+        y: yTop + (yBottom - yTop) * t,
+      }));
+
+      return {
+        id: load.id,
+        outline: `M ${baseX} ${yTop} L ${xTop} ${yTop} L ${xBottom} ${yBottom} L ${baseX} ${yBottom} Z`,
+        arrows,
+        baseX,
+        labelX: Math.min(xTop, xBottom) - 4,
+        labelY: (yTop + yBottom) / 2,
+        label: `${(load.topIntensity / 14.5939).toFixed(2)}–${(load.bottomIntensity / 14.5939).toFixed(2)} kip/ft`,
+      };
+    });
+  }, [distributedLoads, dimensions]);
 
   return (
     <div className="pile-elevation">
@@ -155,32 +255,32 @@ function PileElevation({
 
         {/* Ground surface line */}
         <line
-          x1={dimensions.padding.left - 20}
-          y1={dimensions.pileTop}
-          x2={width - dimensions.padding.right + 20}
-          y2={dimensions.pileTop}
+          x1={ground.left}
+          y1={ground.yLeft}
+          x2={ground.right}
+          y2={ground.yRight}
           stroke="#4ade80"
           strokeWidth="3"
         />
 
-        {/* Ground hatching (above pile) */}
-        <rect
-          x={dimensions.padding.left - 20}
-          y={dimensions.pileTop - 15}
-          width={width - dimensions.padding.left - dimensions.padding.right + 40}
-          height="15"
-          fill="url(#ground-hatch)"
-        />
+        {/* Ground hatching (above the ground line) */}
+        <path d={ground.hatch} fill="url(#ground-hatch)" />
 
         {/* Soil background */}
-        <rect
-          x={dimensions.padding.left - 20}
-          y={dimensions.pileTop}
-          width={width - dimensions.padding.left - dimensions.padding.right + 40}
-          height={dimensions.pileHeight}
-          fill="url(#soil-pattern)"
-          opacity="0.5"
-        />
+        <path d={ground.soil} fill="url(#soil-pattern)" opacity="0.5" />
+
+        {/* Ground slope label */}
+        {ground.slope > 0 && (
+          <text
+            x={ground.right}
+            y={Math.max(ground.yRight, ground.yLeft) + 14}
+            textAnchor="end"
+            fill="#4ade80"
+            fontSize="10"
+          >
+            {ground.slope.toFixed(0)}° slope, loaded {ground.direction}
+          </text>
+        )}
 
         {/* Pile (undeformed) */}
         <rect
@@ -206,6 +306,32 @@ function PileElevation({
           strokeDasharray="8 4"
         />
 
+        {/* Section boundaries */}
+        {sectionMarks.boundaries.map((y) => (
+          <line
+            key={`boundary-${y}`}
+            x1={dimensions.pileLeft - 8}
+            y1={y}
+            x2={dimensions.pileLeft + dimensions.pileWidth + 8}
+            y2={y}
+            stroke="#e5e7eb"
+            strokeWidth="1.5"
+            strokeDasharray="3 3"
+          />
+        ))}
+        {sectionMarks.labels.map((label, idx) => (
+          <text
+            key={`section-${idx}`}
+            x={dimensions.pileLeft + dimensions.pileWidth + 10}
+            y={label.y}
+            fill="#9ca3af"
+            fontSize="10"
+            dominantBaseline="middle"
+          >
+            {label.text}
+          </text>
+        ))}
+
         {/* Deflected shape */}
         {deflectedPath && (
           <path
@@ -231,21 +357,38 @@ function PileElevation({
           />
         )}
 
+        {/* Yielded nodes and plastic hinges */}
+        {yieldMarks.map((mark, idx) =>
+          mark.hinge ? (
+            <circle
+              key={idx}
+              cx={mark.x}
+              cy={mark.y}
+              r="5"
+              fill="#1a1a1a"
+              stroke="#ef4444"
+              strokeWidth="2"
+            />
+          ) : (
+            <circle key={idx} cx={mark.x} cy={mark.y} r="3" fill="#fb923c" />
+          )
+        )}
+
         {/* Lateral load arrow */}
         {lateralLoad !== 0 && (
           <g className="load-arrow">
             <line
               x1={dimensions.pileLeft - loadArrowLength - 10}
-              y1={dimensions.pileTop + 5}
+              y1={loadY + 5}
               x2={dimensions.pileLeft - 5}
-              y2={dimensions.pileTop + 5}
+              y2={loadY + 5}
               stroke="#f87171"
               strokeWidth="3"
               markerEnd="url(#arrowhead)"
             />
             <text
               x={dimensions.pileLeft - loadArrowLength / 2 - 10}
-              y={dimensions.pileTop - 5}
+              y={loadY - 5}
               textAnchor="middle"
               fill="#f87171"
               fontSize="12"
@@ -260,8 +403,8 @@ function PileElevation({
         {moment !== 0 && (
           <g className="moment-indicator">
             <path
-              d={`M ${dimensions.pileCenterX - momentArcRadius} ${dimensions.pileTop + 30}
-                  A ${momentArcRadius} ${momentArcRadius} 0 1 1 ${dimensions.pileCenterX + momentArcRadius} ${dimensions.pileTop + 30}`}
+              d={`M ${dimensions.pileCenterX - momentArcRadius} ${loadY + 30}
+                  A ${momentArcRadius} ${momentArcRadius} 0 1 1 ${dimensions.pileCenterX + momentArcRadius} ${loadY + 30}`}
               fill="none"
               stroke="#fbbf24"
               strokeWidth="2"
@@ -269,7 +412,7 @@ function PileElevation({
             />
             <text
               x={dimensions.pileCenterX}
-              y={dimensions.pileTop + 55}
+              y={loadY + 55}
               textAnchor="middle"
               fill="#fbbf24"
               fontSize="11"
@@ -280,6 +423,68 @@ function PileElevation({
           </g>
         )}
 
+        {/* Distributed loads */}
+        {distributedShapes.map((shape) => (
+          <g key={shape.id} className="distributed-load">
+            <path d={shape.outline} fill="#f87171" fillOpacity="0.12" stroke="#f87171" strokeWidth="1" />
+            {shape.arrows.map((arrow, idx) =>
+              arrow.x < shape.baseX - 4 ? (
+                <line
+                  key={idx}
+                  x1={arrow.x}
+                  y1={arrow.y}
+                  x2={shape.baseX}
+                  y2={arrow.y}
+                  stroke="#f87171"
+                  strokeWidth="1.5"
+                  markerEnd="url(#arrowhead)"
+                />
+              ) : null
+            )}
+            <text
+              x={shape.labelX}
+              y={shape.labelY}
+              textAnchor="end"
+              fill="#f87171"
+              fontSize="9"
+            >
+              {shape.label}
+            </text>
+          </g>
+        ))}
+
+        {/* Additional point loads */}
+        {pointLoads.map((load, idx) => {
+          const y = dimensions.pileTop + load.depth * dimensions.verticalScale;
+          const arrowLength = Math.min(60, Math.max(25, Math.abs(load.lateralLoad) / 2));
+          return (
+            <g key={load.id} className="load-arrow point-load">
+              {load.lateralLoad !== 0 && (
+                <line
+                  x1={dimensions.pileLeft - arrowLength - 10}
+                  y1={y}
+                  x2={dimensions.pileLeft - 5}
+                  y2={y}
+                  stroke="#f87171"
+                  strokeWidth="2"
+                  markerEnd="url(#arrowhead)"
+                />
+              )}
+              <text
+                x={dimensions.pileLeft - 12}
+                y={y - 6}
+                textAnchor="end"
+                fill="#f87171"
+                fontSize="10"
+                fontWeight="600"
+              >
+                P{idx + 2} = {(load.lateralLoad / 4.44822).toFixed(1)} kips
+                {load.moment !== 0 && `, M = ${(load.moment / 1.35582).toFixed(1)} kip-ft`}
+              </text>
+            </g>
+          );
+        })}
+
         {/* Depth scale */}
         <g className="depth-scale">
           {/* Scale line */}
@@ -371,7 +576,10 @@ function PileElevation({
         {results && (
           <g className="max-point">
             {(() => {
-              const maxIdx = results.deflections.indexOf(results.maxDeflection);
+              const maxIdx = results.deflections.reduce(
+                (best, d, i, arr) => (Math.abs(d) > Math.abs(arr[best]) ? i : best),
+                0
+              );
               const maxY = dimensions.pileTop + results.depths[maxIdx] * dimensions.verticalScale;
               const maxX = dimensions.pileCenterX + results.deflections[maxIdx] * dimensions.deflectionScale;
               return (
@@ -413,13 +621,29 @@ function PileElevation({
 
         {/* Legend */}
         <g className="legend" transform={`translate(${width - 90}, ${dimensions.pileTop + 10})`}>
-          <rect x="0" y="0" width="80" height="60" fill="#1e1e1e" stroke="#3a3a3a" rx="4" />
+          <rect
+            x="0"
+            y="0"
+            width="80"
+            height={yieldMarks.length > 0 ? 90 : 60}
+            fill="#1e1e1e"
+            stroke="#3a3a3a"
+            rx="4"
+          />
           <line x1="8" y1="15" x2="28" y2="15" stroke={materialColors[material]} strokeWidth="2" strokeDasharray="4 2" />
           <text x="33" y="18" fill="#888" fontSize="9">Original</text>
           <line x1="8" y1="30" x2="28" y2="30" stroke="#646cff" strokeWidth="2" />
           <text x="33" y="33" fill="#888" fontSize="9">Deflected</text>
           <circle cx="18" cy="45" r="4" fill="#f87171" />
           <text x="33" y="48" fill="#888" fontSize="9">Max</text>
+          {yieldMarks.length > 0 && (
+            <>
+              <circle cx="18" cy="60" r="3" fill="#fb923c" />
+              <text x="33" y="63" fill="#888" fontSize="9">Yielded</text>
+              <circle cx="18" cy="75" r="4" fill="#1a1a1a" stroke="#ef4444" strokeWidth="2" />
+              <text x="33" y="78" fill="#888" fontSize="9">Hinge</text>
+            </>
+          )}
         </g>
       </svg>
 
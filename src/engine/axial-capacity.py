@@ -0,0 +1,266 @@
+"""
+Axial Capacity - Skin Friction and End Bearing
+Static compression and uplift capacity of a single pile from the soil
+profile, with the pile tip at each depth along the pile
+"""
+
+import numpy as np
+
+
+# API RP 2A shaft friction and end bearing for sand at interface
+# friction angles δ = 20°, 25°, 30° and 35°: β = K·tan δ with K = 0.8
+# (driven displacement piles), limiting unit skin friction (kPa),
+# bearing capacity factor Nq and limiting unit end bearing (kPa)
+API_SAND_DELTA = (20.0, 25.0, 30.0, 35.0)
+API_SAND_BETA = tuple(0.8 * np.tan(np.radians(API_SAND_DELTA)))
+API_SAND_FRICTION_LIMIT = (67.0, 81.3, 95.7, 114.8)
+API_SAND_NQ = (12.0, 20.0, 40.0, 50.0)
+API_SAND_BEARING_LIMIT = (2900.0, 4800.0, 9600.0, 12000.0)
+
+# Interface friction angle for each relative density (API RP 2A sand
+# classes); without a density δ = φ' - 5°
+API_SAND_DENSITY_DELTA = {'loose': 20.0, 'medium': 25.0, 'dense': 30.0, 'very-dense': 35.0}
+
+# Bearing capacity factor for end bearing in clay
+CLAY_NC = 9.0
+
+# Atmospheric pressure (kPa) normalizing rock strength
+ATMOSPHERIC_PRESSURE = 101.3
+
+# Axial behaviour of each soil type; custom layers are classified by
+# the strength properties they carry
+SOIL_TYPE_MATERIAL = {
+    'soft-clay': 'clay',
+    'stiff-clay': 'clay',
+    'sand': 'sand',
+    'rock': 'rock',
+}
+
+
+def layer_material(layer):
+    """Axial resistance model of a layer: 'clay', 'sand', 'rock' or None"""
+
+    material = SOIL_TYPE_MATERIAL.get(layer.get('soilType'))
+    if material is not None:
+        return material
+
+    properties = layer['properties']
+    if properties.get('undrainedShearStrength'):
+        return 'clay'
+    if properties.get('frictionAngle'):
+        return 'sand'
+    if properties.get('uniaxialStrength'):
+        return 'rock'
+    return None
+
+
+def required_strength(properties, key, material):
+    value = properties.get(key)
+    if not value or value <= 0:
+        raise ValueError(f'{material} layers need a positive {key} for axial capacity')
+    return value
+
+
+def clay_unit_resistance(properties, stress):
+    """
+    API α-method: unit skin friction α·cu with α = 0.5ψ^-0.5 for ψ ≤ 1
+    and 0.5ψ^-0.25 for ψ > 1 (ψ = cu/σ'v), at most 1; end bearing 9cu
+    """
+
+    cu = required_strength(properties, 'undrainedShearStrength', 'clay')
+    psi = cu / max(stress, 1e-9)
+    alpha = 0.5 * psi**-0.5 if psi <= 1 else 0.5 * psi**-0.25
+
+    return min(alpha, 1.0) * cu, CLAY_NC * cu
+
+
+def sand_unit_resistance(properties, stress):
+    """
+    β-method: unit skin friction β·σ'v and end bearing Nq·σ'v, each
+    held at its API limit, interpolated on the interface friction angle
+    """
+
+    delta = API_SAND_DENSITY_DELTA.get(properties.get('relativeDensity'))
+    if delta is None:
+        delta = required_strength(properties, 'frictionAngle', 'sand') - 5.0
+
+    def at_delta(table):
+        return float(np.interp(delta, API_SAND_DELTA, table))
+
+    friction = min(at_delta(API_SAND_BETA) * stress, at_delta(API_SAND_FRICTION_LIMIT))
+    bearing = min(at_delta(API_SAND_NQ) * stress, at_delta(API_SAND_BEARING_LIMIT))
+
+    return friction, bearing
+
+
+def rock_unit_resistance(properties, stress):
+    """
+    AASHTO LRFD rock sockets: side resistance 0.65·pa·(qu/pa)^0.5
+    (Horvath and Kenney) and end bearing 2.5qu for sound rock
+    """
+
+    qu = required_strength(properties, 'uniaxialStrength', 'rock')
+
+    return 0.65 * ATMOSPHERIC_PRESSURE * np.sqrt(qu / ATMOSPHERIC_PRESSURE), 2.5 * qu
+
+
+UNIT_RESISTANCE = {
+    'clay': clay_unit_resistance,
+    'sand': sand_unit_resistance,
+    'rock': rock_unit_resistance,
+}
+
+
+def unit_resistance(soil_profile, depths, vertical_stress):
+    """
+    Unit skin friction and unit end bearing (kPa) at each depth from the
+    layer containing it, with the layer's material; depths outside every
+    layer, and custom layers without strength properties, give no
+    resistance and no material. A layer missing the strength its
+    material needs gives none either, with a warning.
+    """
+
+    layers = soil_profile.get('layers', [])
+    friction = np.zeros(len(depths))
+    bearing = np.zeros(len(depths))
+    materials = [None] * len(depths)
+    warnings = {}
+
+    for idx, (depth, stress) in enumerate(zip(depths, vertical_stress)):
+        for number, layer in enumerate(layers, start=1):
+            if layer['topDepth'] <= depth <= layer['bottomDepth']:
+                material = layer_material(layer)
+                if material is not None and number not in warnings:
+                    try:
+                        friction[idx], bearing[idx] = UNIT_RESISTANCE[material](layer['properties'], stress)
+                        materials[idx] = material
+                    except ValueError as e:
+                        warnings[number] = f'Layer {number} has no axial resistance: {str(e)}'
+                break
+
+    return friction, bearing, materials, list(warnings.values())
+
+
+def cumulative_integral(values, depths):
+    """Running trapezoidal integral of values over depth from the first node"""
+
+    increments = 0.5 * (values[1:] + values[:-1]) * np.diff(depths)
+    return np.concatenate(([0.0], np.cumsum(increments)))
+
+
+def shaft_and_base(pile_data, soil_profile, depths, diameters, vertical_stress):
+    """
+    Shaft and base resistance with the pile tip at each depth
+
+    Returns the unit skin friction and end bearing (kPa) and material at
+    each node, the outside perimeter (m), the cumulative skin friction
+    and the end bearing (kN), whether an open-ended pipe bears as
+    plugged (None for other piles) and warnings for layers left without
+    resistance. See axial_capacity for the pile shapes.
+    """
+
+    depths = np.asarray(depths, dtype=float)
+    diameters = np.asarray(diameters, dtype=float)
+    friction, bearing, materials, warnings = unit_resistance(soil_profile, depths, vertical_stress)
+
+    steel_section = pile_data.get('steelSection') or {}
+    wall_thickness = pile_data.get('wallThickness')
+    open_ended = False
+    if pile_data.get('material') == 'steel' and steel_section.get('shape') == 'h-pile':
+        flange_width = steel_section.get('flangeWidth') or 0.0
+        if flange_width <= 0:
+            raise ValueError('H-pile flange width must be positive')
+        perimeter = 2 * (diameters + flange_width)
+        tip_area = diameters * flange_width
+    else:
+        perimeter = np.pi * diameters
+        tip_area = np.pi / 4 * diameters**2
+        open_ended = bool(wall_thickness) and np.all(diameters > 2 * wall_thickness)
+
+    skin = cumulative_integral(friction * perimeter, depths)
+    end_bearing = bearing * tip_area
+    plugged = None
+    if open_ended:
+        inner = diameters - 2 * wall_thickness
+        coring = (
+            cumulative_integral(friction * np.pi * inner, depths)
+            + bearing * np.pi / 4 * (diameters**2 - inner**2)
+        )
+        plugged = bool(end_bearing[-1] <= coring[-1])
+        end_bearing = np.minimum(end_bearing, coring)
+
+    return {
+        'friction': friction,
+        'bearing': bearing,
+        'materials': materials,
+        'perimeter': perimeter,
+        'skin': skin,
+        'endBearing': end_bearing,
+        'plugged': plugged,
+        'warnings': warnings,
+    }
+
+
+def axial_capacity(pile_data, soil_profile, depths, diameters, vertical_stress, axial_load):
+    """
+    Compression and uplift capacity with the pile tip at each depth
+
+    Parameters
+    ----------
+    pile_data : dict
+        PileData; wallThickness marks an open-ended pipe and a steel
+        H-pile steelSection gives the flangeWidth, otherwise the pile
+        is a closed-ended or solid round section
+    soil_profile : dict
+        SoilProfile; clay needs undrainedShearStrength, sand
+        frictionAngle or relativeDensity, rock uniaxialStrength
+    depths : array
+        Node depths (m)
+    diameters : array
+        Pile diameter or H-pile depth at each node (m)
+    vertical_stress : array
+        Vertical effective stress σ'v at each node (kPa)
+    axial_load : float
+        Axial load (kN, compression positive)
+
+    Returns
+    -------
+    capacity : dict
+        Unit skin friction and end bearing (kPa) and the cumulative skin
+        friction, end bearing, compression and uplift capacities (kN)
+        at each tip depth, the capacities at the pile tip, the factor
+        of safety against the axial load (None without one) and warnings
+        for layers left without resistance
+
+    Skin friction acts over the outside perimeter: πD for round piles
+    and the box perimeter 2(d + bf) for H-piles, which are taken as
+    plugged at the tip. An open-ended pipe bears on the lesser of the
+    plugged base and its steel annulus plus the same friction on the
+    inside wall. Uplift capacity is the outside skin friction alone,
+    without the pile weight.
+    """
+
+    resistance = shaft_and_base(pile_data, soil_profile, depths, diameters, vertical_stress)
+    skin, end_bearing = resistance['skin'], resistance['endBearing']
+
+    compression = skin + end_bearing
+    capacity = {
+        'unitSkinFriction': resistance['friction'].tolist(),
+        'unitEndBearing': resistance['bearing'].tolist(),
+        'skinFriction': skin.tolist(),
+        'endBearing': end_bearing.tolist(),
+        'compression': compression.tolist(),
+        'uplift': skin.tolist(),
+        'compressionCapacity': float(compression[-1]),
+        'upliftCapacity': float(skin[-1]),
+        'plugged': resistance['plugged'],
+        'factorOfSafety': None,
+        'warnings': resistance['warnings'],
+    }
+
+    if axial_load > 0:
+        capacity['factorOfSafety'] = float(compression[-1] / axial_load)
+    elif axial_load < 0:
+        capacity['factorOfSafety'] = float(skin[-1] / -axial_load)
+
+    return capacity
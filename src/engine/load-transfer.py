@@ -0,0 +1,407 @@
+"""
+Axial Load Transfer - t-z and Q-z Curves
+Load-settlement response of a single pile from API t-z (shaft) and Q-z
+(tip) curves on an axially flexible pile, and its response to downdrag
+from settling soil
+"""
+
+import numpy as np
+from scipy import sparse
+from scipy.sparse import linalg
+from scipy.optimize import brentq
+
+from axial_capacity import shaft_and_base
+from steel_section import pipe_properties, h_pile_properties
+
+
+# API RP 2GEO t-z curve for clay: t/tmax against z/D, falling to the
+# residual friction (0.7 to 0.9 tmax; 0.9 used) past the peak
+API_TZ_CLAY_Z = (0.0, 0.0016, 0.0031, 0.0057, 0.0080, 0.0100, 0.0200)
+API_TZ_CLAY_T = (0.0, 0.30, 0.50, 0.75, 0.90, 1.00, 0.90)
+
+# Shaft displacement mobilizing tmax in sand (0.1 in); also used for
+# rock sockets
+API_TZ_SAND_PEAK = 0.00254
+
+# API RP 2GEO Q-z curve: Q/Qp against tip settlement z/D
+API_QZ_Z = (0.0, 0.002, 0.013, 0.042, 0.073, 0.100)
+API_QZ_Q = (0.0, 0.25, 0.50, 0.75, 0.90, 1.00)
+
+# Head settlement increments along the load-settlement curve
+LOAD_SETTLEMENT_STEPS = 40
+
+
+def axial_rigidity(pile_data, EI_nodes, diameters):
+    """
+    Axial rigidity EA (kN) at each node from the flexural rigidity and
+    the section shape: EA = EI·A/I for a pipe, a steel H-pile, or a
+    solid round section when there is no wall thickness; a steel pipe
+    section must have a wall thickness
+    """
+
+    steel_section = (pile_data.get('material') == 'steel' and pile_data.get('steelSection')) or {}
+    shape = steel_section.get('shape', 'pipe') if steel_section else None
+    if shape == 'pipe' and not pile_data.get('wallThickness'):
+        raise ValueError('steel pipe needs a positive wall thickness')
+    EA = np.zeros(len(EI_nodes))
+
+    for idx, (EI, D) in enumerate(zip(EI_nodes, diameters)):
+        if shape == 'h-pile':
+            props = h_pile_properties(
+                D,
+                steel_section.get('flangeWidth') or 0.0,
+                steel_section.get('flangeThickness') or 0.0,
+                steel_section.get('webThickness') or 0.0,
+                steel_section.get('bendingAxis') or 'strong'
+            )
+        else:
+            props = pipe_properties(D, pile_data.get('wallThickness') or D / 2)
+        EA[idx] = EI * props['area'] / props['inertia']
+
+    return EA
+
+
+def tz_ratio(material, displacement, diameter):
+    """Mobilized shaft friction t/tmax at a pile displacement (m), signed"""
+
+    u = abs(displacement)
+    if material == 'clay':
+        ratio = float(np.interp(u / diameter, API_TZ_CLAY_Z, API_TZ_CLAY_T))
+    else:
+        ratio = min(u / API_TZ_SAND_PEAK, 1.0)
+
+    return np.sign(displacement) * ratio
+
+
+def qz_ratio(displacement, diameter):
+    """Mobilized end bearing Q/Qp at a tip settlement (m); none in uplift"""
+
+    if displacement <= 0:
+        return 0.0
+    return float(np.interp(displacement / diameter, API_QZ_Z, API_QZ_Q))
+
+
+def build_load_transfer(pile_data, soil_profile, depths, diameters, EI_nodes, vertical_stress):
+    """
+    Axial bar model of the pile on t-z and Q-z springs
+
+    The pile is a chain of bar elements between nodes with the average
+    EA of their end nodes. Each node carries the shaft resistance of its
+    tributary length (tmax from the axial capacity methods times the
+    perimeter), mobilized along its layer's t-z curve; the tip node also
+    carries the end bearing on the Q-z curve.
+    """
+
+    depths = np.asarray(depths, dtype=float)
+    diameters = np.asarray(diameters, dtype=float)
+    resistance = shaft_and_base(pile_data, soil_profile, depths, diameters, vertical_stress)
+
+    EA = axial_rigidity(pile_data, EI_nodes, diameters)
+    if np.any(EA <= 0):
+        raise ValueError('pile axial rigidity must be positive')
+
+    lengths = np.diff(depths)
+    tributary = np.zeros(len(depths))
+    tributary[:-1] += lengths / 2
+    tributary[1:] += lengths / 2
+
+    shaft = resistance['friction'] * resistance['perimeter'] * tributary
+    tip = float(resistance['endBearing'][-1])
+    if np.sum(shaft) + tip <= 0:
+        raise ValueError('no layer along the pile gives axial resistance')
+
+    element_stiffness = 0.5 * (EA[:-1] + EA[1:]) / lengths
+    diagonal = np.zeros(len(depths))
+    diagonal[:-1] += element_stiffness
+    diagonal[1:] += element_stiffness
+    K = sparse.diags(
+        [-element_stiffness, diagonal, -element_stiffness], [-1, 0, 1], format='csr'
+    )
+
+    return {
+        'depths': depths,
+        'diameters': diameters,
+        'EA': EA,
+        'K': K,
+        'elementStiffness': element_stiffness,
+        'friction': resistance['friction'],
+        'materials': resistance['materials'],
+        'shaft': shaft,
+        'tip': tip,
+        'skinCapacity': float(resistance['skin'][-1]),
+    }
+
+
+def node_resistance(model, w):
+    """
+    Soil resistance (kN) at each node for settlements w, with tangent
+    and secant stiffnesses (kN/m)
+    """
+
+    n = len(w)
+    diameters = model['diameters']
+    R = np.zeros(n)
+    k_tangent = np.zeros(n)
+    k_secant = np.zeros(n)
+
+    def resistance(idx, displacement):
+        force = 0.0
+        if model['materials'][idx] is not None:
+            force = model['shaft'][idx] * tz_ratio(model['materials'][idx], displacement, diameters[idx])
+        if idx == n - 1:
+            force += model['tip'] * qz_ratio(displacement, diameters[idx])
+        return force
+
+    for idx in range(n):
+        dw = 1e-6 * diameters[idx]
+        R[idx] = resistance(idx, w[idx])
+        k_tangent[idx] = (resistance(idx, w[idx] + dw) - resistance(idx, w[idx] - dw)) / (2 * dw)
+        k_secant[idx] = R[idx] / w[idx] if w[idx] != 0 and R[idx] != 0 else k_tangent[idx]
+
+    return R, k_tangent, k_secant
+
+
+def solve_head_settlement(model, head_settlement, w_start, max_iter, tol):
+    """
+    Settlements (m, downward positive) along the pile for a prescribed
+    head settlement, by Newton-Raphson iteration on the t-z and Q-z
+    springs; flat or softening springs use the secant stiffness
+
+    Returns the settlements and whether the iteration converged.
+    """
+
+    K = model['K']
+    w = w_start.copy()
+    w[0] = head_settlement
+    free = K[1:, 1:]
+
+    for _ in range(max_iter):
+        R, k_tangent, k_secant = node_resistance(model, w)
+        residual = -(K @ w) - R
+        k_soil = np.where(k_tangent > 0, k_tangent, k_secant)
+
+        dw = linalg.spsolve((free + sparse.diags(k_soil[1:])).tocsc(), residual[1:])
+        if not np.all(np.isfinite(dw)):
+            raise ValueError('singular axial stiffness matrix')
+
+        w[1:] += dw
+        if np.max(np.abs(dw)) <= tol:
+            return w, True
+
+    return w, False
+
+
+def head_load(model, w, soil_settlement=0.0):
+    """
+    Axial head load (kN, compression positive) carried at settlements w,
+    with the springs acting on the settlement relative to the soil
+    """
+
+    R, _, _ = node_resistance(model, w - soil_settlement)
+    return float((model['K'] @ w)[0] + R[0])
+
+
+def load_transfer_state(model, w, soil_settlement=0.0):
+    """
+    Axial force (kN) at each node, mobilized unit skin friction (kPa,
+    negative where the soil drags the pile down) and the tip load (kN)
+    at settlements w
+    """
+
+    relative = w - soil_settlement
+    element_forces = model['elementStiffness'] * (w[:-1] - w[1:])
+    tip_load = model['tip'] * qz_ratio(relative[-1], model['diameters'][-1])
+
+    forces = np.zeros(len(w))
+    forces[0] = head_load(model, w, soil_settlement)
+    forces[1:-1] = 0.5 * (element_forces[:-1] + element_forces[1:])
+    forces[-1] = tip_load
+
+    mobilized = np.array([
+        model['friction'][idx] * tz_ratio(material, relative[idx], model['diameters'][idx])
+        if material is not None else 0.0
+        for idx, material in enumerate(model['materials'])
+    ])
+
+    return forces, mobilized, tip_load
+
+
+def load_settlement(model, axial_load, max_iter, tol):
+    """
+    Head load-settlement curve and the load transfer at the axial load
+
+    The head settlement is increased in LOAD_SETTLEMENT_STEPS equal
+    steps, downward for compression (and with no axial load) and upward
+    for uplift, up to 0.1D at the tip plus the elastic shortening of the
+    pile under the full capacity, so the curve reaches the plunging load
+    where the capacity is fully mobilized. The axial load is then located
+    on the curve and the head settlement carrying it exactly is found by
+    root finding between the bracketing steps.
+
+    Returns
+    -------
+    result : dict
+        The curve points (head load, head and tip settlement), the
+        initial head stiffness and the largest head load on the curve;
+        at the axial load the head settlement, secant head stiffness,
+        axial force, settlement and mobilized unit skin friction at
+        every node, and the tip load and its fraction of the end bearing
+        capacity. These are None (or empty) without an axial load or
+        when the load exceeds the largest head load on the curve.
+    """
+
+    depths = model['depths']
+    direction = -1.0 if axial_load < 0 else 1.0
+    capacity = model['skinCapacity'] + (model['tip'] if direction > 0 else 0.0)
+    max_settlement = (
+        0.1 * model['diameters'][-1]
+        + capacity * (depths[-1] - depths[0]) / float(np.min(model['EA']))
+    )
+
+    w = np.zeros(len(depths))
+    curve = []
+    states = [(0.0, w.copy())]
+    for step in range(1, LOAD_SETTLEMENT_STEPS + 1):
+        head = direction * max_settlement * step / LOAD_SETTLEMENT_STEPS
+        w, converged = solve_head_settlement(model, head, w, max_iter, tol)
+        curve.append({
+            'headLoad': head_load(model, w),
+            'headSettlement': float(w[0]),
+            'tipSettlement': float(w[-1]),
+            'converged': converged,
+        })
+        states.append((head, w.copy()))
+
+    loads = [0.0] + [point['headLoad'] for point in curve]
+    result = {
+        'curve': curve,
+        'initialStiffness': curve[0]['headLoad'] / curve[0]['headSettlement'],
+        'ultimateLoad': float(max(abs(load) for load in loads)),
+        'exceedsCapacity': False,
+        'headSettlement': None,
+        'headStiffness': None,
+        'tipLoad': None,
+        'tipMobilization': None,
+        'axialForces': [],
+        'settlements': [],
+        'mobilizedFriction': [],
+    }
+
+    if axial_load == 0:
+        return result
+
+    crossing = next((idx for idx in range(1, len(loads)) if abs(loads[idx]) >= abs(axial_load)), None)
+    if crossing is None:
+        result['exceedsCapacity'] = True
+        return result
+
+    lower, w_lower = states[crossing - 1]
+    upper, _ = states[crossing]
+
+    def unbalanced(head):
+        settlements, _ = solve_head_settlement(model, head, w_lower, max_iter, tol)
+        return head_load(model, settlements) - axial_load
+
+    head = brentq(unbalanced, lower, upper, xtol=tol)
+    w, _ = solve_head_settlement(model, head, w_lower, max_iter, tol)
+    forces, mobilized, tip_load = load_transfer_state(model, w)
+
+    result.update({
+        'headSettlement': float(w[0]),
+        'headStiffness': float(axial_load / w[0]),
+        'tipLoad': float(tip_load),
+        'tipMobilization': float(tip_load / model['tip']) if model['tip'] > 0 else None,
+        'axialForces': forces.tolist(),
+        'settlements': w.tolist(),
+        'mobilizedFriction': mobilized.tolist(),
+    })
+
+    return result
+
+
+def solve_downdrag(model, axial_load, soil_settlement, max_iter, tol):
+    """
+    Pile settlements (m) under a head load (kN) while the soil settles
+
+    Shaft and tip springs act on the pile settlement relative to the
+    soil, so soil settling past the pile drags it down (negative skin
+    friction) and the pile is held by positive friction and end bearing
+    below. Newton-Raphson iteration on the load-controlled system,
+    starting with the pile moving with the soil; flat or softening
+    springs use the secant stiffness.
+
+    Returns the settlements and whether the iteration converged.
+    """
+
+    K = model['K']
+    F = np.zeros(len(soil_settlement))
+    F[0] = axial_load
+    w = np.array(soil_settlement, dtype=float)
+
+    for _ in range(max_iter):
+        R, k_tangent, k_secant = node_resistance(model, w - soil_settlement)
+        residual = F - K @ w - R
+        k_soil = np.where(k_tangent > 0, k_tangent, k_secant)
+
+        dw = linalg.spsolve((K + sparse.diags(k_soil)).tocsc(), residual)
+        if not np.all(np.isfinite(dw)):
+            raise ValueError('the pile has no axial support (check the soil profile)')
+
+        w += dw
+        if np.max(np.abs(dw)) <= tol:
+            return w, True
+
+    return w, False
+
+
+def downdrag(model, axial_load, soil_settlement, max_iter, tol):
+    """
+    Neutral plane, dragload and pile settlement under downdrag
+
+    The neutral plane is where the pile and soil settle equally: above
+    it the soil settles more and loads the pile, below it the pile
+    settles more and is supported. The axial force peaks there; the
+    dragload is that peak less the head load. With the pile settling
+    more than the soil everywhere there is no dragload and the neutral
+    plane is at the head.
+
+    Returns
+    -------
+    result : dict
+        Neutral plane depth (m), the maximum axial force and dragload
+        (kN), head and tip settlement (m) and tip load (kN), with the
+        pile and soil settlement, axial force and mobilized unit skin
+        friction at every node
+    """
+
+    depths = model['depths']
+    soil_settlement = np.asarray(soil_settlement, dtype=float)
+    w, converged = solve_downdrag(model, axial_load, soil_settlement, max_iter, tol)
+    forces, mobilized, tip_load = load_transfer_state(model, w, soil_settlement)
+
+    relative = w - soil_settlement
+    supported = np.nonzero(relative >= 0)[0]
+    if len(supported) == 0:
+        neutral_plane = float(depths[-1])
+    elif supported[0] == 0:
+        neutral_plane = float(depths[0])
+    else:
+        idx = supported[0]
+        neutral_plane = float(np.interp(0.0, [relative[idx - 1], relative[idx]], [depths[idx - 1], depths[idx]]))
+
+    max_idx = int(np.argmax(forces))
+
+    return {
+        'converged': converged,
+        'neutralPlaneDepth': neutral_plane,
+        'maxAxialForce': float(forces[max_idx]),
+        'maxForceDepth': float(depths[max_idx]),
+        'dragload': float(max(forces[max_idx] - axial_load, 0.0)),
+        'headSettlement': float(w[0]),
+        'tipSettlement': float(w[-1]),
+        'tipLoad': float(tip_load),
+        'settlements': w.tolist(),
+        'soilSettlements': soil_settlement.tolist(),
+        'axialForces': forces.tolist(),
+        'mobilizedFriction': mobilized.tolist(),
+    }
@@ -0,0 +1,232 @@
+"""
+Moment-Curvature Analysis - Reinforced Concrete Sections
+Fiber analysis of circular reinforced concrete sections (drilled shafts)
+giving the nonlinear moment-curvature relationship used to update the
+pile's flexural stiffness
+"""
+
+import numpy as np
+from scipy.optimize import brentq
+
+
+# Concrete crushing strain at the extreme compression fiber
+CONCRETE_CRUSHING_STRAIN = 0.003
+
+# Strain where the Hognestad descending branch reaches 0.85 f'c
+HOGNESTAD_LIMIT_STRAIN = 0.0038
+
+# Steel modulus (kPa)
+STEEL_MODULUS = 200e6
+
+# Number of horizontal concrete strips across the section
+N_STRIPS = 100
+
+
+def concrete_stress(strain, fc, Ec):
+    """
+    Concrete stress (kPa, compression positive) for strain
+    (compression positive)
+
+    Compression follows the Hognestad parabola up to f'c at ε0 = 2f'c/Ec,
+    then a linear descent to 0.85 f'c at 0.0038. Tension is linear up to
+    the modulus of rupture fr = 0.62√f'c (MPa) and carries nothing once
+    cracked.
+    """
+
+    strain = np.asarray(strain, dtype=float)
+    eps0 = 2 * fc / Ec
+    fr = 0.62 * np.sqrt(fc / 1000) * 1000
+    eps_cr = fr / Ec
+
+    ascending = fc * (2 * strain / eps0 - (strain / eps0) ** 2)
+    descending = fc * (1 - 0.15 * (strain - eps0) / (HOGNESTAD_LIMIT_STRAIN - eps0))
+    tension = np.where(strain >= -eps_cr, Ec * strain, 0.0)
+
+    stress = np.where(strain <= eps0, ascending, np.maximum(descending, 0.0))
+    return np.where(strain >= 0, stress, tension)
+
+
+def steel_stress(strain, fy):
+    """Elastic-perfectly plastic reinforcing steel stress (kPa)"""
+
+    return np.clip(STEEL_MODULUS * np.asarray(strain, dtype=float), -fy, fy)
+
+
+def circular_section(diameter, reinforcement):
+    """
+    Fiber layout for a circular section
+
+    Returns concrete strip centroids and areas, and bar positions and
+    areas, all measured from the section centroid (m, m²).
+    """
+
+    R = diameter / 2
+    n_bars = reinforcement.get('numBars') or 0
+    db = reinforcement['barDiameter']
+    cover = reinforcement['cover']
+    bar_radius = R - cover - db / 2
+
+    if n_bars < 1 or n_bars != int(n_bars):
+        raise ValueError('reinforcement needs a whole number of bars, at least one')
+    if bar_radius <= 0:
+        raise ValueError('cover and bar size leave no room for the reinforcing cage')
+    n_bars = int(n_bars)
+
+    dy = diameter / N_STRIPS
+    strip_y = -R + dy * (np.arange(N_STRIPS) + 0.5)
+    strip_area = 2 * np.sqrt(np.maximum(R**2 - strip_y**2, 0.0)) * dy
+
+    angles = 2 * np.pi * np.arange(n_bars) / n_bars
+    bar_y = bar_radius * np.sin(angles)
+    bar_area = np.full(n_bars, np.pi * db**2 / 4)
+
+    return strip_y, strip_area, bar_y, bar_area
+
+
+def section_forces(eps_centroid, curvature, section, fc, Ec, fy):
+    """
+    Axial force (kN, compression positive) and moment (kN·m) for a
+    linear strain profile ε(y) = ε_centroid + φ·y
+    """
+
+    strip_y, strip_area, bar_y, bar_area = section
+
+    strip_strain = eps_centroid + curvature * strip_y
+    bar_strain = eps_centroid + curvature * bar_y
+
+    strip_force = concrete_stress(strip_strain, fc, Ec) * strip_area
+    # Bars displace the concrete they occupy
+    bar_force = (steel_stress(bar_strain, fy) - concrete_stress(bar_strain, fc, Ec)) * bar_area
+
+    N = np.sum(strip_force) + np.sum(bar_force)
+    M = np.sum(strip_force * strip_y) + np.sum(bar_force * bar_y)
+
+    return N, M
+
+
+def moment_curvature(diameter, reinforcement, axial_load, n_points=80):
+    """
+    Moment-curvature curve of a circular RC section under constant axial load
+
+    Parameters
+    ----------
+    diameter : float
+        Section diameter (m)
+    reinforcement : dict
+        RCReinforcement: concreteStrength and steelYield (MPa), numBars,
+        barDiameter and cover (clear cover to the bars, m)
+    axial_load : float
+        Axial load (kN, compression positive)
+
+    Returns
+    -------
+    curve : dict
+        curvature (1/m) and moment (kN·m) arrays starting at the origin,
+        plus cracking, first-yield and ultimate points. Ultimate is the
+        concrete crushing strain at the extreme compression fiber.
+    """
+
+    fc = reinforcement['concreteStrength'] * 1000
+    fy = reinforcement['steelYield'] * 1000
+    if fc <= 0 or fy <= 0:
+        raise ValueError('concrete strength and steel yield must be positive')
+
+    Ec = 4700 * np.sqrt(fc / 1000) * 1000
+    eps_cr = 0.62 * np.sqrt(fc / 1000) * 1000 / Ec
+    eps_y = fy / STEEL_MODULUS
+
+    section = circular_section(diameter, reinforcement)
+    strip_y, _, bar_y, bar_area = section
+    R = diameter / 2
+
+    # Axial load must lie within the section's pure tension/compression capacity
+    tension_capacity = -fy * np.sum(bar_area)
+    squash_capacity, _ = section_forces(2 * fc / Ec, 0.0, section, fc, Ec, fy)
+    if not tension_capacity < axial_load < squash_capacity:
+        raise ValueError(
+            f'axial load {axial_load:.0f} kN is outside the section capacity '
+            f'({tension_capacity:.0f} to {squash_capacity:.0f} kN)'
+        )
+
+    def centroid_strain(curvature):
+        return brentq(
+            lambda eps: section_forces(eps, curvature, section, fc, Ec, fy)[0] - axial_load,
+            -0.05, CONCRETE_CRUSHING_STRAIN, xtol=1e-12
+        )
+
+    curvatures = [0.0]
+    moments = [0.0]
+    cracking = yielding = None
+
+    for phi in np.geomspace(1e-4, 0.5, n_points) / diameter:
+        eps = centroid_strain(phi)
+        _, M = section_forces(eps, phi, section, fc, Ec, fy)
+
+        top_strain = eps + phi * R
+        if top_strain > CONCRETE_CRUSHING_STRAIN:
+            break
+
+        if cracking is None and eps - phi * R < -eps_cr:
+            cracking = (phi, M)
+        if yielding is None and np.min(eps + phi * bar_y) <= -eps_y:
+            yielding = (phi, M)
+
+        curvatures.append(phi)
+        moments.append(M)
+
+    if len(curvatures) < 3:
+        raise ValueError('section crushes under the axial load alone')
+
+    ultimate = (curvatures[-1], moments[-1])
+
+    cracking = cracking or ultimate
+    yielding = yielding or ultimate
+
+    return {
+        'curvature': np.array(curvatures),
+        'moment': np.array(moments),
+        'initialEI': moments[1] / curvatures[1],
+        'crackingCurvature': cracking[0],
+        'crackingMoment': cracking[1],
+        'yieldCurvature': yielding[0],
+        'yieldMoment': yielding[1],
+        'ultimateCurvature': ultimate[0],
+        'ultimateMoment': float(np.max(moments)),
+    }
+
+
+def secant_stiffness(curve, curvature):
+    """
+    Secant flexural stiffness M/φ (kN·m²) of the section at |curvature|
+
+    Working from curvature rather than moment keeps the stiffness single
+    valued where the curve flattens or dips after cracking. Curvatures
+    beyond crushing return the stiffness at the ultimate point.
+    """
+
+    phi = abs(curvature)
+    curvatures = curve['curvature']
+
+    if phi <= curvatures[1]:
+        return curve['initialEI']
+    if phi >= curvatures[-1]:
+        return curve['moment'][-1] / curvatures[-1]
+
+    # Hold the cracking moment across the post-cracking dip so the
+    # moment never falls as curvature grows
+    moments = np.maximum.accumulate(curve['moment'])
+    return np.interp(phi, curvatures, moments) / phi
+
+
+def section_state(curve, curvature):
+    """Classify a section as uncracked, cracked, yielded or ultimate at |curvature|"""
+
+    phi = abs(curvature)
+
+    if phi >= curve['ultimateCurvature']:
+        return 'ultimate'
+    if phi >= curve['yieldCurvature']:
+        return 'yielded'
+    if phi >= curve['crackingCurvature']:
+        return 'cracked'
+    return 'uncracked'
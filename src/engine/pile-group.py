@@ -0,0 +1,117 @@
+"""
+Pile Groups - Row-Dependent P-Multipliers
+Reduction of the p-y resistance of piles in a group for shadowing by
+neighbouring piles, by row position in the direction of loading
+"""
+
+import numpy as np
+
+
+# AASHTO LRFD Table 10.7.2.4-1: p-multipliers for the leading row, the
+# second row and the third and later rows at 3 and 5 diameters spacing
+AASHTO_SPACINGS = (3.0, 5.0)
+AASHTO_MULTIPLIERS = {
+    'leading': (0.8, 1.0),
+    'second': (0.4, 0.85),
+    'trailing': (0.3, 0.7),
+}
+
+
+def aashto_multipliers(n_rows, spacing_ratio):
+    """
+    AASHTO p-multipliers for each row, leading row first
+
+    spacing_ratio is the centre-to-centre row spacing in the loading
+    direction over the pile diameter. Multipliers are interpolated
+    linearly between 3 and 5 diameters and held at the 5 diameter values
+    beyond.
+    """
+
+    if n_rows == 1:
+        return [1.0]
+
+    if spacing_ratio < AASHTO_SPACINGS[0]:
+        raise ValueError(
+            f'AASHTO p-multipliers cover row spacings of 3 diameters or more '
+            f'(got {spacing_ratio:.2f}); use the Reese method for closer spacing'
+        )
+
+    def at_spacing(key):
+        return float(np.interp(spacing_ratio, AASHTO_SPACINGS, AASHTO_MULTIPLIERS[key]))
+
+    multipliers = []
+    for row in range(n_rows):
+        if row == 0:
+            multipliers.append(at_spacing('leading'))
+        elif row == 1:
+            multipliers.append(at_spacing('second'))
+        else:
+            multipliers.append(at_spacing('trailing'))
+
+    return multipliers
+
+
+def reese_multipliers(n_rows, row_spacing_ratio, piles_per_row, pile_spacing_ratio):
+    """
+    Reese, Isenhower & Wang (2006) p-multipliers for each row, leading
+    row first
+
+    The reduction for each neighbouring pile depends on its position
+    and the spacing ratio s/b:
+        side by side:      0.64(s/b)^0.34, none beyond 3.75 b
+        in line, leading:  0.70(s/b)^0.26, none beyond 4 b
+        in line, trailing: 0.48(s/b)^0.38, none beyond 7 b
+    A pile's multiplier is the product for its closest neighbours: the
+    pile behind it (as leading pile), the pile ahead of it (as trailing
+    pile) and, with more than one pile per row, those beside it.
+    """
+
+    def reduction(coefficient, exponent, limit, ratio):
+        return 1.0 if ratio >= limit else min(coefficient * ratio**exponent, 1.0)
+
+    side = reduction(0.64, 0.34, 3.75, pile_spacing_ratio) if piles_per_row > 1 else 1.0
+    leading = reduction(0.70, 0.26, 4.0, row_spacing_ratio)
+    trailing = reduction(0.48, 0.38, 7.0, row_spacing_ratio)
+
+    multipliers = []
+    for row in range(n_rows):
+        pm = side
+        if row < n_rows - 1:
+            pm *= leading
+        if row > 0:
+            pm *= trailing
+        multipliers.append(pm)
+
+    return multipliers
+
+
+def row_multipliers(pile_group, diameter):
+    """
+    P-multiplier for each row of a PileGroup, leading row first
+
+    Parameters
+    ----------
+    pile_group : dict
+        PileGroup: rows, pilesPerRow, rowSpacing and pileSpacing (m),
+        method ('aashto' or 'reese')
+    diameter : float
+        Pile diameter (m)
+    """
+
+    n_rows = int(pile_group.get('rows') or 0)
+    piles_per_row = int(pile_group.get('pilesPerRow') or 0)
+    if n_rows < 1 or piles_per_row < 1:
+        raise ValueError('a group needs at least one row of at least one pile')
+
+    row_spacing = pile_group.get('rowSpacing') or 0.0
+    pile_spacing = pile_group.get('pileSpacing') or 0.0
+    if (n_rows > 1 and row_spacing <= 0) or (piles_per_row > 1 and pile_spacing <= 0):
+        raise ValueError('pile spacing must be positive')
+
+    method = pile_group.get('method') or 'aashto'
+    if method == 'aashto':
+        return aashto_multipliers(n_rows, row_spacing / diameter)
+    if method == 'reese':
+        return reese_multipliers(n_rows, row_spacing / diameter, piles_per_row, pile_spacing / diameter)
+
+    raise ValueError(f'unknown p-multiplier method: {method}')
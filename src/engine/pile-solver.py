@@ -1,11 +1,79 @@
 """
 Pile Solver - Finite Difference Analysis
 Core computational engine for lateral pile analysis
+
+The pile is discretized into n real nodes plus two fictitious nodes
+beyond each end. Unknown vector layout:
+
+    [y(-2), y(-1), y(0), ..., y(n-1), y(n), y(n+1)]
+
+Rows 0-1 hold the pile head boundary conditions, rows 2..n+1 the
+beam-column equation at each real node and rows n+2..n+3 the pile tip
+boundary conditions.
+
+Sign convention: M = EI·y'' and V = dM/dx + P·y'. A positive head
+shear or positive head moment produces positive head deflection and a
+negative head slope; a head restraint resisting that rotation therefore
+develops a negative moment, M = kθ·y'.
 """
 
 import numpy as np
 from scipy import sparse
+from scipy import linalg as dense_linalg
 from scipy.sparse import linalg
+from scipy.optimize import brentq
+
+from py_curves import build_soil_springs, evaluate_springs, vertical_effective_stress
+from moment_curvature import moment_curvature, secant_stiffness, section_state
+from steel_section import steel_capacity, plastic_secant_stiffness, steel_section_state
+from pile_group import row_multipliers
+from scour import scour_levels, scoured_profile, scoured_vertical_stress
+from axial_capacity import axial_capacity
+from load_transfer import build_load_transfer, load_settlement, downdrag
+
+
+# Number of fictitious nodes beyond each end of the pile
+N_GHOST = 2
+
+# Loads shallower than this (m) are applied through the head boundary rows
+HEAD_LOAD_TOLERANCE = 1e-9
+
+# Head conditions where rotation or deflection is (partially) restrained
+SLOPE_RESTRAINED_HEADS = ('fixed-head', 'rotational-restraint', 'specified-slope', 'deflection-slope')
+DEFLECTION_RESTRAINED_HEADS = ('pinned-head', 'specified-deflection', 'deflection-slope')
+
+# Relative change in node-wise EI below which nonlinear sections have settled
+STIFFNESS_TOLERANCE = 5e-3
+
+# Secant EI, as a fraction of the initial EI, below which a plastic
+# hinge is taken to have become a collapse mechanism
+COLLAPSE_STIFFNESS_RATIO = 0.01
+
+# Fractions of the buckling load at which head deflection is traced
+BUCKLING_SWEEP_FRACTIONS = (0.0, 0.2, 0.4, 0.6, 0.8, 0.9)
+
+# Head condition each pile of a group is solved with once the cap
+# deflection is prescribed (a pile pinned to the cap rotates freely, like
+# a free head); the other head conditions already prescribe the
+# deflection and are solved as given
+GROUP_CAP_CONDITIONS = {
+    'free-head': 'specified-deflection',
+    'pinned-head': 'specified-deflection',
+    'fixed-head': 'deflection-slope',
+    'specified-slope': 'deflection-slope',
+}
+
+# Doublings of the trial cap deflection allowed while bracketing the
+# group load
+GROUP_BRACKET_STEPS = 20
+
+# Newton iterations allowed for the pile cap displacement
+CAP_MAX_ITERATIONS = 30
+
+# Perturbations for the pile head tangent stiffness: head deflection as
+# a fraction of the pile diameter, and head slope (rad)
+CAP_DEFLECTION_STEP = 1e-4
+CAP_SLOPE_STEP = 1e-5
 
 
 def solve_pile(pile_data, soil_profile, load_case, config):
@@ -25,217 +93,1579 @@ def solve_pile(pile_data, soil_profile, load_case, config):
 
     Returns
     -------
-    results : dict
-        Analysis results including deflections, moments, shears
+    output : dict
+        SolverOutput: success flag plus analysis results including
+        deflections, moments, shears and convergence information,
+        or an error message
+    """
+
+    if config.get('scour'):
+        return solve_scour(pile_data, soil_profile, load_case, config)
+    if config.get('pileCap'):
+        output = solve_pile_cap(pile_data, soil_profile, load_case, config)
+    elif config.get('pileGroup'):
+        output = solve_pile_group(pile_data, soil_profile, load_case, config)
+    else:
+        output = solve_single_pile(pile_data, soil_profile, load_case, config)
+
+    if not output['success']:
+        return output
+    return add_axial_capacity(output, pile_data, soil_profile, load_case, config)
+
+
+def add_axial_capacity(output, pile_data, soil_profile, load_case, config):
+    """
+    Add the axial capacity of the analyzed pile to a successful output
+
+    Computed once per analysis on the nodes of the reported pile, with
+    the factor of safety against its axial load: the load case axial
+    load for single piles and groups, the critical pile's axial force
+    for a pile cap. A scoured case counts only the soil left below the
+    scour hole.
+    """
+
+    results = output['results']
+    axial_load = load_case['axialLoad']
+    if 'cap' in results:
+        axial_load = results['cap']['piles'][results['cap']['criticalPile'] - 1]['axialForce']
+
+    # Skin friction and end bearing with the tip at each node
+    try:
+        if config.get('appliedScour'):
+            soil_profile = scoured_profile(soil_profile, config['appliedScour'])
+        results['axialCapacity'] = axial_capacity(
+            pile_data, soil_profile, results['depths'], results['diameters'], results['verticalStress'],
+            axial_load
+        )
+    except ValueError as e:
+        return {
+            'success': False,
+            'error': f'Axial capacity: {str(e)}'
+        }
+
+    return output
+
+
+def solve_single_pile(pile_data, soil_profile, load_case, config):
+    """
+    Single pile analysis behind solve_pile, also run for every pile of a
+    group or cap and for the buckling sweep; takes and returns the same
+    dictionaries as solve_pile, without the axial capacity
     """
 
     # Extract parameters
     pile_length = pile_data['length']
-    pile_diameter = pile_data['diameter']
-    EI = pile_data['EI']
 
-    lateral_load = load_case['lateralLoad']
-    moment = load_case['moment']
     axial_load = load_case['axialLoad']
 
     n_nodes = config['numNodes']
     max_iter = config['maxIterations']
     tol = config['convergenceTolerance']
+    bc_type = config['boundaryCondition']
+    head_values = {
+        'rotationalStiffness': config.get('rotationalStiffness') or 0.0,
+        'slope': config.get('headSlope') or 0.0,
+        'deflection': config.get('headDeflection') or 0.0,
+    }
 
     # Node spacing
     h = pile_length / (n_nodes - 1)
     depths = np.linspace(0, pile_length, n_nodes)
 
-    # Initialize deflection vector
-    y = np.zeros(n_nodes)
+    # Section properties at every node (stepped or tapered piles)
+    try:
+        EI_nodes, diameter_nodes = section_properties(pile_data, depths)
+    except ValueError as e:
+        return {
+            'success': False,
+            'error': f'Invalid pile sections: {str(e)}'
+        }
 
-    # Assemble pile stiffness matrix
-    K_pile = assemble_pile_stiffness(n_nodes, h, EI, axial_load)
+    # Split point loads into head loads (boundary rows) and loads along the pile
+    point_loads = collect_point_loads(load_case)
+    for load in point_loads:
+        if load['depth'] < 0 or load['depth'] > pile_length:
+            return {
+                'success': False,
+                'error': f"Point load at {load['depth']:.2f} m lies outside the pile (0 to {pile_length:.2f} m)"
+            }
+    head_loads = [load for load in point_loads if load['depth'] <= HEAD_LOAD_TOLERANCE]
+    shaft_loads = [load for load in point_loads if load['depth'] > HEAD_LOAD_TOLERANCE]
+    head_shear = sum(load['lateralLoad'] for load in head_loads)
+    head_moment = sum(load['moment'] for load in head_loads)
+
+    distributed_loads = load_case.get('distributedLoads') or []
+    for idx, load in enumerate(distributed_loads):
+        if load['bottomDepth'] <= load['topDepth']:
+            return {
+                'success': False,
+                'error': f'Distributed load {idx + 1}: bottom depth must be below top depth'
+            }
+
+    # Build p-y curves at every node from the soil profile and its
+    # vertical effective stress; a scoured case uses the soil left below
+    # the scour hole, with p-y depths measured from the scoured surface
+    analysis_profile = soil_profile
+    applied_scour = config.get('appliedScour')
+    try:
+        if applied_scour:
+            analysis_profile = scoured_profile(soil_profile, applied_scour)
+            vertical_stress = scoured_vertical_stress(
+                soil_profile, applied_scour, depths, float(np.max(diameter_nodes))
+            )
+        else:
+            vertical_stress = vertical_effective_stress(soil_profile, depths)
+        springs = build_soil_springs(
+            analysis_profile, depths, diameter_nodes, load_case, vertical_stress,
+            config.get('pMultiplier') or 1.0
+        )
+    except (KeyError, ValueError) as e:
+        return {
+            'success': False,
+            'error': f'Invalid soil profile: {str(e)}'
+        }
 
-    # Apply boundary conditions (free head for now)
-    K_pile, bc_modifications = apply_boundary_conditions(
-        K_pile, config['boundaryCondition']
-    )
+    # Axial bar model on t-z and Q-z springs, with EA from the elastic section
+    load_transfer = None
+    if config.get('loadSettlement') or config.get('downdrag'):
+        try:
+            load_transfer = build_load_transfer(
+                pile_data, analysis_profile, depths, diameter_nodes, EI_nodes, vertical_stress
+            )
+        except ValueError as e:
+            return {
+                'success': False,
+                'error': f'Axial load transfer: {str(e)}'
+            }
+
+    # Soil settlement dragging the pile down
+    soil_settlement = None
+    if config.get('downdrag'):
+        try:
+            soil_settlement = interpolate_soil_movement(load_case.get('soilSettlement') or [], depths, 'settlement')
+        except ValueError as e:
+            return {
+                'success': False,
+                'error': f'Invalid soil settlement profile: {str(e)}'
+            }
+        if not np.any(soil_settlement):
+            return {
+                'success': False,
+                'error': 'Downdrag needs a soil settlement profile'
+            }
+
+    # Free-field soil movement the springs act against
+    try:
+        soil_movement = interpolate_soil_movement(load_case.get('soilMovement') or [], depths)
+    except ValueError as e:
+        return {
+            'success': False,
+            'error': f'Invalid soil movement profile: {str(e)}'
+        }
 
-    # Create load vector
-    F_applied = create_load_vector(n_nodes, lateral_load, moment, h)
+    # Nonlinear section behaviour (RC moment-curvature or steel yield)
+    try:
+        section_model = build_section_model(pile_data, EI_nodes, diameter_nodes, axial_load)
+    except ValueError as e:
+        return {
+            'success': False,
+            'error': f'Invalid pile section: {str(e)}'
+        }
+    if section_model is not None:
+        EI_nodes = section_model['initialEI']
 
-    # TEMPORARY: Linear elastic solution (no P-Y curves yet)
-    # This is a placeholder until we implement full non-linear solver
+    # Optional shear and moment springs at the pile tip
     try:
-        y = sparse.linalg.spsolve(K_pile, F_applied)
-    except Exception as e:
+        base = build_base_springs(config.get('baseSprings'), h)
+    except ValueError as e:
         return {
             'success': False,
-            'error': f'Solver failed: {str(e)}'
+            'error': f'Invalid base springs: {str(e)}'
         }
 
-    # Calculate moments and shears from deflections
-    moments = calculate_moments(y, h, EI)
-    shears = calculate_shears(y, h, EI)
+    F_applied = create_load_vector(n_nodes, h, shaft_loads, distributed_loads)
+
+    system = {
+        'n_nodes': n_nodes,
+        'h': h,
+        'depths': depths,
+        'axial_load': axial_load,
+        'bc_type': bc_type,
+        'head_values': head_values,
+        'springs': springs,
+        'diameter': float(np.max(diameter_nodes)),
+        'max_iter': max_iter,
+        'tol': tol,
+        'soil_movement': soil_movement,
+        'section_model': section_model,
+        'base': base,
+    }
 
-    # Calculate soil reactions from equilibrium
-    # p(x) = -EI * d⁴y/dx⁴ (from beam equation)
-    soil_reactions = calculate_soil_reactions(y, h, EI)
+    # Apply the lateral loads and moments in equal increments, each step
+    # starting from the previous deflections and section stiffness, and
+    # record the pile head response for the pushover curve. Prescribed
+    # head deflection/slope and soil movement are applied in full. The
+    # curve reports the total lateral load (head, point and distributed
+    # loads) and concentrated moment applied at each step.
+    total_lateral_load = sum(load['lateralLoad'] for load in point_loads) + sum(
+        (load['topIntensity'] + load['bottomIntensity']) / 2 * (load['bottomDepth'] - load['topDepth'])
+        for load in distributed_loads
+    )
+    total_moment = sum(load['moment'] for load in point_loads)
+    n_steps = max(int(config.get('loadSteps') or 1), 1)
+    y_ext = None
+    iterations = 0
+    pushover = []
+    stop_reason = None
+    for step in range(1, n_steps + 1):
+        factor = step / n_steps
+        try:
+            y_step, reactions_step, EI_step, converged_step, step_iterations = solve_load_step(
+                system, factor * F_applied, factor * head_shear, factor * head_moment, EI_nodes, y_ext
+            )
+        except ValueError as e:
+            if not pushover:
+                return {
+                    'success': False,
+                    'error': str(e)
+                }
+            stop_reason = f'Load step {step} of {n_steps}: {str(e)}'
+            break
+
+        # A diverged step is no starting point for the next one: keep the
+        # last converged state, as the buckling sweep does
+        iterations += step_iterations
+        if not converged_step and pushover:
+            stop_reason = f'Load step {step} of {n_steps} did not converge'
+            break
+
+        y_ext, soil_reactions, EI_nodes, converged = y_step, reactions_step, EI_step, converged_step
+
+        step_moments = calculate_moments(y_ext, h, EI_nodes)
+        max_idx = int(np.argmax(np.abs(step_moments)))
+        pushover.append({
+            'loadFactor': factor,
+            'lateralLoad': factor * total_lateral_load,
+            'moment': factor * total_moment,
+            'headDeflection': float(y_ext[N_GHOST]),
+            'headRotation': float((y_ext[N_GHOST + 1] - y_ext[N_GHOST - 1]) / (2 * h)),
+            'maxMoment': float(abs(step_moments[max_idx])),
+            'maxMomentDepth': float(depths[max_idx]),
+            'converged': converged,
+        })
+        if not converged:
+            if step < n_steps:
+                stop_reason = f'Load step {step} of {n_steps} did not converge'
+            break
+
+    # Calculate moments and shears from deflections (including fictitious nodes)
+    y = y_ext[N_GHOST:-N_GHOST]
+    moments = calculate_moments(y_ext, h, EI_nodes)
+    shears = calculate_shears(y_ext, h, EI_nodes, axial_load)
+    head_slope = (y_ext[N_GHOST + 1] - y_ext[N_GHOST - 1]) / (2 * h)
+
+    # Whatever the applied head loads (at the last completed load step)
+    # do not account for is carried by the head restraint (pile cap or
+    # support)
+    applied_factor = pushover[-1]['loadFactor']
+    restraint_moment = 0.0
+    restraint_shear = 0.0
+    if bc_type in SLOPE_RESTRAINED_HEADS:
+        restraint_moment = float(moments[0] - applied_factor * head_moment)
+    if bc_type in DEFLECTION_RESTRAINED_HEADS:
+        restraint_shear = float(shears[0] - applied_factor * head_shear)
+
+    load_point_deflections = [
+        {'depth': load['depth'], 'deflection': float(np.interp(load['depth'], depths, y))}
+        for load in point_loads
+    ]
 
     # Package results
     results = {
-        'success': True,
-        'converged': True,
-        'iterations': 1,  # Placeholder
+        'converged': converged,
+        'iterations': iterations,
         'depths': depths.tolist(),
         'deflections': y.tolist(),
         'moments': moments.tolist(),
         'shears': shears.tolist(),
         'soilReactions': soil_reactions.tolist(),
+        'soilMovements': soil_movement.tolist(),
+        'verticalStress': vertical_stress.tolist(),
+        'flexuralRigidity': EI_nodes.tolist(),
+        'diameters': diameter_nodes.tolist(),
         'maxDeflection': float(np.max(np.abs(y))),
         'maxMoment': float(np.max(np.abs(moments))),
         'maxShear': float(np.max(np.abs(shears))),
-        'deflectionAtLoad': float(y[0])  # At pile head
+        'deflectionAtLoad': load_point_deflections[0]['deflection'],
+        'loadPointDeflections': load_point_deflections,
+        'headSlope': float(head_slope),
+        'headMoment': float(moments[0]),
+        'headShear': float(shears[0]),
+        'restraintMoment': restraint_moment,
+        'restraintShear': restraint_shear,
+        'pushover': pushover
     }
 
-    return results
+    if stop_reason is not None:
+        results['converged'] = False
+        results['pushoverStopped'] = stop_reason
+
+    if base is not None:
+        _, _, base_shear, base_moment = base_spring_terms(y_ext, base)
+        results['baseShear'] = float(base_shear)
+        results['baseMoment'] = float(base_moment)
+
+    if section_model is not None:
+        curvatures = calculate_moments(y_ext, h, np.ones(n_nodes))
+        classify = section_model['state']
+        states = [classify(section, phi) for section, phi in zip(section_model['sections'], curvatures)]
+        base_section = section_model['sections'][int(np.argmin(np.abs(diameter_nodes - pile_data['diameter'])))]
+        results['sectionStates'] = states
+        results['yieldedZones'] = depth_ranges(
+            depths, [state in ('yielded', 'ultimate', 'plastic') for state in states]
+        )
+
+        if section_model['material'] == 'concrete':
+            results['crackedZones'] = depth_ranges(depths, [state != 'uncracked' for state in states])
+            results['momentCurvature'] = {
+                'curvature': base_section['curvature'].tolist(),
+                'moment': base_section['moment'].tolist(),
+                'crackingMoment': float(base_section['crackingMoment']),
+                'yieldMoment': float(base_section['yieldMoment']),
+                'ultimateMoment': float(base_section['ultimateMoment']),
+            }
+        else:
+            results['plasticHinges'] = depth_ranges(depths, [state == 'plastic' for state in states])
+            results['steelCapacity'] = {
+                'yieldMoment': float(base_section['yieldMoment']),
+                'plasticMoment': float(base_section['plasticMoment']),
+                'axialYield': float(base_section['axialYield']),
+            }
+
+    if load_transfer is not None:
+        try:
+            if config.get('loadSettlement'):
+                results['loadSettlement'] = load_settlement(load_transfer, axial_load, max_iter, tol)
+            if soil_settlement is not None:
+                results['downdrag'] = downdrag(load_transfer, axial_load, soil_settlement, max_iter, tol)
+        except ValueError as e:
+            return {
+                'success': False,
+                'error': f'Axial load transfer: {str(e)}'
+            }
+
+    if config.get('bucklingAnalysis'):
+        # Soil tangent stiffness about the converged deflected shape
+        _, k_tangent, _ = evaluate_springs(springs, y - soil_movement, float(np.max(diameter_nodes)))
+        base_tangent = base_spring_terms(y_ext, base)[1] if base is not None else None
+        try:
+            critical_load, mode = critical_axial_load(
+                n_nodes, h, EI_nodes, np.maximum(k_tangent, 0.0), bc_type, head_values, base_tangent
+            )
+        except (ValueError, dense_linalg.LinAlgError) as e:
+            return {
+                'success': False,
+                'error': f'Buckling analysis failed: {str(e)}'
+            }
+        results['buckling'] = buckling_results(
+            critical_load, mode, pile_data, soil_profile, load_case, config
+        )
+
+    return {
+        'success': True,
+        'results': results
+    }
 
 
-def assemble_pile_stiffness(n_nodes, h, EI, P_axial):
+def solve_scour(pile_data, soil_profile, load_case, config):
     """
-    Assemble pile stiffness matrix using finite differences
+    Scoured and unscoured analyses of the same pile and loads
+
+    config['scour'] gives scourDepth, the general scour below the ground
+    surface (m), and optionally localScourDepth, a scour hole at the pile
+    below that (m), with its holeBottomWidth from the pile face (m) and
+    holeSideSlope (horizontal over vertical). The scoured case removes
+    the soil above the hole bottom and recomputes the effective stress
+    (see scour.scoured_vertical_stress) and with it the p-y curves and
+    axial capacity. Groups and caps are analyzed for both cases.
+
+    Returns the scoured solution with both cases summarized side by side
+    under 'scour'.
+    """
+
+    scour = config['scour']
+    try:
+        general_level, hole_bottom = scour_levels(soil_profile, scour)
+    except ValueError as e:
+        return {
+            'success': False,
+            'error': f'Invalid scour: {str(e)}'
+        }
+
+    cases = {}
+    for name, case_config in (
+        ('unscoured', {**config, 'scour': None}),
+        ('scoured', {**config, 'scour': None, 'appliedScour': scour}),
+    ):
+        output = solve_pile(pile_data, soil_profile, load_case, case_config)
+        if not output['success']:
+            return {
+                'success': False,
+                'error': f"{name.capitalize()} case: {output['error']}"
+            }
+        cases[name] = output['results']
+
+    def summary(results):
+        max_idx = int(np.argmax(np.abs(results['moments'])))
+        return {
+            'converged': results['converged'],
+            'headDeflection': results['deflections'][0],
+            'maxDeflection': results['maxDeflection'],
+            'maxMoment': results['maxMoment'],
+            'maxMomentDepth': results['depths'][max_idx],
+            'maxShear': results['maxShear'],
+            'compressionCapacity': results['axialCapacity']['compressionCapacity'],
+            'deflections': results['deflections'],
+            'moments': results['moments'],
+            'verticalStress': results['verticalStress'],
+        }
+
+    results = dict(cases['scoured'])
+    results['scour'] = {
+        'scourDepth': scour.get('scourDepth') or 0.0,
+        'localScourDepth': scour.get('localScourDepth') or 0.0,
+        'generalScourLevel': float(general_level),
+        'scourLevel': float(hole_bottom),
+        'unscoured': summary(cases['unscoured']),
+        'scoured': summary(cases['scoured']),
+    }
 
-    5-point stencil for 4th derivative:
-    d⁴y/dx⁴ ≈ (y[i-2] - 4y[i-1] + 6y[i] - 4y[i+1] + y[i+2]) / h⁴
+    return {
+        'success': True,
+        'results': results
+    }
+
+
+def solve_pile_group(pile_data, soil_profile, load_case, config):
+    """
+    Pile group under a rigid cap, one pile analysis per row
+
+    config['pileGroup'] gives the rows in the loading direction, piles
+    per row, spacings, p-multiplier method and loadingDirection
+    ('forward': row 1 leads, 'reverse': the last row leads). Each row's
+    p-y curves are scaled by its p-multiplier.
+
+    The head lateral load is the group total delivered through the cap:
+    every pile takes the same head deflection, found so that the row
+    shears add up to the group lateral load. A moment on the cap is
+    resisted by axial push-pull between the piles, which is not modeled
+    here, so a group takes no head moment; solve_pile_cap carries it.
+    Pinned heads are pinned to the cap: they follow its deflection and
+    rotate freely, carrying the load like free heads.
+    Heads that already prescribe the deflection (specified deflection,
+    deflection and slope) are solved as given and report the load each
+    row attracts. Axial load and loads along the pile apply to every
+    pile. Load stepping, buckling, axial load-settlement and downdrag
+    are not carried out for groups.
+
+    Returns the solution for the critical row (largest moment) with the
+    row-by-row results and load distribution under 'group'.
+    """
+
+    pile_group = config['pileGroup']
+    try:
+        multipliers = row_multipliers(pile_group, pile_data['diameter'])
+    except ValueError as e:
+        return {
+            'success': False,
+            'error': f'Invalid pile group: {str(e)}'
+        }
+    if pile_group.get('loadingDirection') == 'reverse':
+        multipliers = multipliers[::-1]
+
+    piles_per_row = int(pile_group['pilesPerRow'])
+    n_piles = len(multipliers) * piles_per_row
+    bc_type = config['boundaryCondition']
+
+    if (load_case.get('loadDepth') or 0.0) > HEAD_LOAD_TOLERANCE:
+        return {
+            'success': False,
+            'error': 'Group loads act at the pile cap; set the load depth to 0'
+        }
+    if bc_type == 'rotational-restraint':
+        return {
+            'success': False,
+            'error': 'Group analysis needs a free, fixed, pinned or prescribed head condition'
+        }
+    if load_case.get('moment'):
+        return {
+            'success': False,
+            'error': 'A pile group carries the cap lateral load only; analyze a cap moment with the pile cap'
+        }
+
+    pile_load_case = {**load_case, 'lateralLoad': 0.0, 'moment': 0.0}
+    row_config = {
+        **config, 'pileGroup': None, 'loadSteps': 1, 'bucklingAnalysis': False,
+        'loadSettlement': False, 'downdrag': False,
+    }
+    sharing = bc_type in GROUP_CAP_CONDITIONS
+    if sharing:
+        row_config['boundaryCondition'] = GROUP_CAP_CONDITIONS[bc_type]
+        if bc_type == 'fixed-head':
+            row_config['headSlope'] = 0.0
+
+    solved = {}
+
+    def solve_rows(deflection):
+        if deflection not in solved:
+            rows = []
+            for pm in multipliers:
+                output = solve_single_pile(pile_data, soil_profile, pile_load_case,
+                                    {**row_config, 'headDeflection': deflection, 'pMultiplier': pm})
+                if not output['success']:
+                    raise ValueError(output['error'])
+                rows.append(output['results'])
+            solved[deflection] = rows
+        return solved[deflection]
+
+    def unbalanced_load(deflection):
+        rows = solve_rows(deflection)
+        return piles_per_row * sum(row['headShear'] for row in rows) - group_load
+
+    group_load = load_case.get('lateralLoad') or 0.0
+    try:
+        if not sharing:
+            cap_deflection = config.get('headDeflection') or 0.0
+        else:
+            # Bracket the cap deflection carrying the group load, then refine
+            cap_deflection = 0.0
+            start = unbalanced_load(0.0)
+            if start != 0:
+                trial = -np.sign(start) * 0.01 * pile_data['diameter']
+                for _ in range(GROUP_BRACKET_STEPS):
+                    if np.sign(unbalanced_load(trial)) != np.sign(start):
+                        break
+                    trial *= 2
+                else:
+                    return {
+                        'success': False,
+                        'error': 'The group cannot carry the lateral load: no cap deflection balances it'
+                    }
+                cap_deflection = brentq(unbalanced_load, 0.0, trial, xtol=1e-7, rtol=1e-6)
+        rows = solve_rows(cap_deflection)
+    except ValueError as e:
+        return {
+            'success': False,
+            'error': f'Pile group: {str(e)}'
+        }
+
+    carried = piles_per_row * sum(row['headShear'] for row in rows)
+    row_results = []
+    for idx, (pm, row) in enumerate(zip(multipliers, rows)):
+        max_idx = int(np.argmax(np.abs(row['moments'])))
+        row_results.append({
+            'row': idx + 1,
+            'pMultiplier': float(pm),
+            'headDeflection': row['deflections'][0],
+            'headShear': row['headShear'],
+            'headMoment': row['headMoment'],
+            'maxMoment': row['maxMoment'],
+            'maxMomentDepth': row['depths'][max_idx],
+            'loadShare': piles_per_row * row['headShear'] / carried if carried != 0 else 0.0,
+        })
+
+    critical = int(np.argmax([row['maxMoment'] for row in rows]))
+    results = dict(rows[critical])
+    results['converged'] = all(row['converged'] for row in rows)
+    results['iterations'] = sum(row['iterations'] for row in rows)
+    results['group'] = {
+        'method': pile_group.get('method') or 'aashto',
+        'piles': n_piles,
+        'capDeflection': float(cap_deflection),
+        'groupLoad': float(carried),
+        'criticalRow': critical + 1,
+        'rows': row_results,
+    }
+
+    return {
+        'success': True,
+        'results': results
+    }
+
+
+def solve_pile_cap(pile_data, soil_profile, load_case, config):
     """
+    Rigid pile cap on vertical and battered piles (2D bent)
+
+    config['pileCap'] lists the piles by head position x along the cap
+    (m, from the load reference point) and batter (horizontal run per
+    unit length down the pile, positive with the toe towards +x), with
+    an optional p-multiplier each; axialStiffness (kN/m) is the axial
+    head stiffness of every pile and headConnection 'fixed' or 'pinned'.
+
+    The load case's lateral load H, axial load V (downward) and moment M
+    (turning +x towards depth, like a pile head moment) act on the cap.
+    The cap moves by u (horizontal), w (vertical, down) and θ; a pile
+    head at x moves u horizontally and w + θ·x vertically, split into
+    an axial displacement resisted by the axial stiffness and a lateral
+    displacement across the pile. The lateral response comes from the
+    single-pile solver with that head deflection and, for fixed heads,
+    head slope -θ, carrying the pile's axial force for P-delta. Newton
+    iteration on (u, w, θ), with each pile's head tangent found by
+    perturbing its head deflection and slope, runs until the cap is in
+    equilibrium. Loads along the pile apply to every pile in its own
+    axes; p-y curves are not modified for batter.
+
+    Returns the solution for the critical pile (largest moment) with the
+    cap movement and every pile's head forces and response curves under
+    'cap'.
+    """
+
+    cap = config['pileCap']
+    piles = cap.get('piles') or []
+    k_axial = cap.get('axialStiffness') or 0.0
+    pinned = cap.get('headConnection') == 'pinned'
 
-    # Stiffness coefficients
-    c = EI / h**4
-    beta = -P_axial * h**2 / EI  # P-delta effect
+    if not piles:
+        return {
+            'success': False,
+            'error': 'Invalid pile cap: add at least one pile'
+        }
+    if k_axial <= 0:
+        return {
+            'success': False,
+            'error': 'Invalid pile cap: pile axial stiffness must be positive'
+        }
+    if (load_case.get('loadDepth') or 0.0) > HEAD_LOAD_TOLERANCE:
+        return {
+            'success': False,
+            'error': 'Cap loads act at the pile cap; set the load depth to 0'
+        }
 
-    # Diagonal elements
-    main_diag = c * (6 + beta) * np.ones(n_nodes)
-    off1_diag = c * (-4 + beta/2) * np.ones(n_nodes - 1)
-    off2_diag = c * np.ones(n_nodes - 2)
+    positions = np.array([pile.get('position') or 0.0 for pile in piles])
+    angles = np.arctan([pile.get('batter') or 0.0 for pile in piles])
+    sin_b, cos_b = np.sin(angles), np.cos(angles)
 
-    # Create sparse matrix (pentadiagonal)
-    K = sparse.diags(
-        [off2_diag, off1_diag, main_diag, off1_diag, off2_diag],
-        [-2, -1, 0, 1, 2],
-        format='csr'
+    pile_load_case = {**load_case, 'lateralLoad': 0.0, 'moment': 0.0}
+    pile_config = {
+        **config, 'pileCap': None, 'pileGroup': None, 'loadSteps': 1, 'bucklingAnalysis': False,
+        'loadSettlement': False, 'downdrag': False,
+        'boundaryCondition': 'specified-deflection' if pinned else 'deflection-slope',
+    }
+    deflection_step = CAP_DEFLECTION_STEP * pile_data['diameter']
+    loads = np.array([
+        load_case.get('lateralLoad') or 0.0,
+        load_case.get('axialLoad') or 0.0,
+        load_case.get('moment') or 0.0,
+    ], dtype=float)
+    span = max(np.ptp(positions), pile_data['diameter'])
+
+    def solve_head(idx, deflection, slope, axial_force):
+        pile = piles[idx]
+        output = solve_single_pile(
+            pile_data, soil_profile, {**pile_load_case, 'axialLoad': axial_force},
+            {**pile_config, 'headDeflection': deflection, 'headSlope': slope,
+             'pMultiplier': pile.get('pMultiplier') or 1.0}
+        )
+        if not output['success']:
+            raise ValueError(f"pile {idx + 1}: {output['error']}")
+        return output['results']
+
+    def head_actions(results):
+        return results['headShear'], 0.0 if pinned else results['headMoment']
+
+    state = np.zeros(3)
+    axial_forces = np.zeros(len(piles))
+    converged = False
+    try:
+        for iteration in range(1, CAP_MAX_ITERATIONS + 1):
+            u, w, theta = state
+            w_heads = w + theta * positions
+            axial_disp = u * sin_b + w_heads * cos_b
+            lateral_disp = u * cos_b - w_heads * sin_b
+            axial_forces = k_axial * axial_disp
+
+            residual = loads.copy()
+            jacobian = np.zeros((3, 3))
+            pile_results = []
+            for idx in range(len(piles)):
+                s_b, c_b, x = sin_b[idx], cos_b[idx], positions[idx]
+                results = solve_head(idx, lateral_disp[idx], -theta, axial_forces[idx])
+                pile_results.append(results)
+                V, M = head_actions(results)
+
+                # Head tangent by perturbing deflection and slope
+                V_d, M_d = head_actions(
+                    solve_head(idx, lateral_disp[idx] + deflection_step, -theta, axial_forces[idx])
+                )
+                dV_dy, dM_dy = (V_d - V) / deflection_step, (M_d - M) / deflection_step
+                dV_ds = dM_ds = 0.0
+                if not pinned:
+                    V_s, M_s = head_actions(
+                        solve_head(idx, lateral_disp[idx], -theta + CAP_SLOPE_STEP, axial_forces[idx])
+                    )
+                    dV_ds, dM_ds = (V_s - V) / CAP_SLOPE_STEP, (M_s - M) / CAP_SLOPE_STEP
+
+                # Forces of the pile on the cap
+                Q = axial_forces[idx]
+                F_x = -(Q * s_b + V * c_b)
+                F_z = -(Q * c_b - V * s_b)
+                residual += [F_x, F_z, x * F_z - M]
+
+                # Their derivatives with respect to (u, w, θ)
+                d_lateral = np.array([c_b, -s_b, -s_b * x])
+                d_axial = np.array([s_b, c_b, c_b * x])
+                d_slope = np.array([0.0, 0.0, -1.0])
+                dQ = k_axial * d_axial
+                dV = dV_dy * d_lateral + dV_ds * d_slope
+                dM = dM_dy * d_lateral + dM_ds * d_slope
+                dF_x = -(s_b * dQ + c_b * dV)
+                dF_z = -(c_b * dQ - s_b * dV)
+                jacobian += np.array([dF_x, dF_z, x * dF_z - dM])
+
+            step = np.linalg.solve(jacobian, -residual)
+            state = state + step
+            if max(abs(step[0]), abs(step[1]), abs(step[2]) * span) <= config['convergenceTolerance']:
+                converged = True
+                break
+    except ValueError as e:
+        return {
+            'success': False,
+            'error': f'Pile cap: {str(e)}'
+        }
+    except np.linalg.LinAlgError:
+        return {
+            'success': False,
+            'error': 'Pile cap is a mechanism: the piles cannot restrain it (add piles, batter or fixed heads)'
+        }
+
+    # Pile responses at the final cap position
+    u, w, theta = state
+    w_heads = w + theta * positions
+    axial_forces = k_axial * (u * sin_b + w_heads * cos_b)
+    lateral_disp = u * cos_b - w_heads * sin_b
+    try:
+        pile_results = [
+            solve_head(idx, lateral_disp[idx], -theta, axial_forces[idx]) for idx in range(len(piles))
+        ]
+    except ValueError as e:
+        return {
+            'success': False,
+            'error': f'Pile cap: {str(e)}'
+        }
+
+    cap_piles = []
+    for idx, (pile, results) in enumerate(zip(piles, pile_results)):
+        V, M = head_actions(results)
+        Q = float(axial_forces[idx])
+        max_idx = int(np.argmax(np.abs(results['moments'])))
+        cap_piles.append({
+            'id': pile.get('id') or f'pile-{idx + 1}',
+            'position': float(positions[idx]),
+            'batter': pile.get('batter') or 0.0,
+            'axialForce': Q,
+            'lateralForce': V,
+            'headMoment': M,
+            'horizontalForce': float(Q * sin_b[idx] + V * cos_b[idx]),
+            'verticalForce': float(Q * cos_b[idx] - V * sin_b[idx]),
+            'headDeflection': results['deflections'][0],
+            'maxMoment': results['maxMoment'],
+            'maxMomentDepth': results['depths'][max_idx],
+            'deflections': results['deflections'],
+            'moments': results['moments'],
+            'shears': results['shears'],
+            'soilReactions': results['soilReactions'],
+        })
+
+    critical = int(np.argmax([results['maxMoment'] for results in pile_results]))
+    results = dict(pile_results[critical])
+    results['converged'] = converged and all(pile['converged'] for pile in pile_results)
+    results['iterations'] = iteration
+    results['cap'] = {
+        'horizontalDisplacement': float(u),
+        'verticalDisplacement': float(w),
+        'rotation': float(theta),
+        'criticalPile': critical + 1,
+        'piles': cap_piles,
+    }
+
+    return {
+        'success': True,
+        'results': results
+    }
+
+
+def solve_load_step(system, F_applied, head_shear, head_moment, EI_nodes, y_start):
+    """
+    Solve one load level, updating section stiffness for softening sections
+
+    system holds the fixed problem data (discretization, boundary
+    condition, springs, soil movement, section model and iteration
+    limits). The soil is solved with the current flexural stiffness; for
+    softening sections (cracking concrete, plastic hinges) node-wise EI
+    is then updated from the resulting curvatures and the solve repeated
+    until the stiffness settles.
+
+    Returns the deflections (including fictitious nodes), soil reactions,
+    EI at the nodes, convergence flag and soil iterations; raises
+    ValueError for bad boundary conditions, solver failure or a plastic
+    collapse mechanism.
+    """
+
+    n_nodes, h = system['n_nodes'], system['h']
+    axial_load = system['axial_load']
+    section_model = system['section_model']
+
+    y_ext = y_start
+    iterations = 0
+    for _ in range(system['max_iter']):
+        K_pile = assemble_pile_stiffness(n_nodes, h, EI_nodes, axial_load)
+
+        # Apply head and tip boundary conditions
+        K_system, F_system = apply_boundary_conditions(
+            K_pile, F_applied, system['bc_type'], h, EI_nodes, axial_load,
+            head_shear, head_moment, system['head_values']
+        )
+
+        # Non-linear solution with p-y soil springs
+        try:
+            y_ext, soil_reactions, converged, soil_iterations = solve_nonlinear(
+                K_system, F_system, system['springs'], system['diameter'], system['max_iter'],
+                system['tol'], system['soil_movement'], y_ext, system['base']
+            )
+        except Exception as e:
+            raise ValueError(f'Solver failed: {str(e)}')
+        iterations += soil_iterations
+
+        if section_model is None or not section_model['softening']:
+            break
+
+        curvatures = calculate_moments(y_ext, h, np.ones(n_nodes))
+        stiffness = section_model['stiffness']
+        EI_updated = np.array([
+            stiffness(section, phi) for section, phi in zip(section_model['sections'], curvatures)
+        ])
+        collapsed = EI_updated < COLLAPSE_STIFFNESS_RATIO * section_model['initialEI']
+        if np.any(collapsed):
+            raise ValueError(
+                f"Plastic mechanism at {system['depths'][np.argmax(collapsed)]:.2f} m depth: "
+                'the loads exceed the lateral capacity of the pile'
+            )
+
+        # Cracking and yielding are irreversible under monotonic loading,
+        # so stiffness only ever softens; this also stops nodes near the
+        # cracking moment flip-flopping between cracked and uncracked EI
+        EI_updated = np.minimum(EI_updated, EI_nodes)
+        stiffness_change = np.max((EI_nodes - EI_updated) / EI_nodes)
+        if stiffness_change <= STIFFNESS_TOLERANCE:
+            break
+
+        EI_nodes = EI_updated
+    else:
+        converged = False
+
+    return y_ext, soil_reactions, EI_nodes, converged, iterations
+
+
+def critical_axial_load(n_nodes, h, EI_nodes, k_soil, bc_type, head_values, base_tangent=None):
+    """
+    Lowest compressive axial load at which the pile buckles
+
+    The system matrix is linear in the axial load, A(P) = A0 + P·G, with
+    the soil as linear springs k_soil (kN/m²) at the real nodes and any
+    base springs through their tangent on the tip rows. Buckling
+    occurs where A(P) is singular, i.e. at the eigenvalues of
+    A0·y = -P·G·y; the smallest positive one is the critical load.
+    Prescribed head deflection and slope act as restraints.
+
+    Returns the critical load (kN), or None if the pile cannot buckle
+    under compression, and the mode shape at the real nodes scaled to a
+    largest value of 1.
+    """
+
+    size = n_nodes + 2 * N_GHOST
+    zero_load = np.zeros(size)
+
+    A0, _ = apply_boundary_conditions(
+        assemble_pile_stiffness(n_nodes, h, EI_nodes, 0.0), zero_load,
+        bc_type, h, EI_nodes, 0.0, 0.0, 0.0, head_values
     )
+    A1, _ = apply_boundary_conditions(
+        assemble_pile_stiffness(n_nodes, h, EI_nodes, 1.0), zero_load,
+        bc_type, h, EI_nodes, 1.0, 0.0, 0.0, head_values
+    )
+    G = (A1 - A0).toarray()
+
+    k_ext = np.zeros(size)
+    k_ext[N_GHOST:N_GHOST + n_nodes] = k_soil
+    A0 = A0.toarray() + np.diag(k_ext)
+    if base_tangent is not None:
+        A0 = A0 + base_tangent.toarray()
+
+    eigenvalues, vectors = dense_linalg.eig(A0, -G)
+
+    # Rows without an axial term give infinite eigenvalues
+    finite = np.isfinite(eigenvalues) & (np.abs(eigenvalues.imag) <= 1e-6 * np.abs(eigenvalues))
+    positive = finite & (eigenvalues.real > 0)
+    if not np.any(positive):
+        return None, None
+
+    idx = np.flatnonzero(positive)[np.argmin(eigenvalues.real[positive])]
+    mode = vectors[N_GHOST:N_GHOST + n_nodes, idx].real
+
+    return float(eigenvalues.real[idx]), (mode / np.max(np.abs(mode))).tolist()
 
-    return K
 
+def buckling_results(critical_load, mode, pile_data, soil_profile, load_case, config):
+    """
+    Buckling load, amplification factor and head deflection growth
+
+    The amplification factor 1/(1 - P/Pcr) estimates how much the axial
+    load magnifies lateral deflections and moments; it is None once the
+    axial load reaches the critical load. Head deflection is traced by
+    re-solving the pile at increasing fractions of the critical load,
+    stopping where the solution diverges: with nonlinear soil the
+    springs soften as deflection grows, so the pile can become unstable
+    below the critical load found for the current state.
+    """
+
+    axial_load = load_case['axialLoad']
+    if critical_load is None:
+        return {'criticalLoad': None, 'amplificationFactor': 1.0, 'modeShape': [], 'deflectionCurve': []}
+
+    amplification = None
+    if axial_load < critical_load:
+        amplification = 1 / (1 - max(axial_load, 0.0) / critical_load)
+
+    sweep_config = {**config, 'bucklingAnalysis': False, 'loadSteps': 1, 'loadSettlement': False,
+                    'downdrag': False}
+    sweep_loads = sorted({critical_load * fraction for fraction in BUCKLING_SWEEP_FRACTIONS} | {axial_load})
+    curve = []
+    for P in sweep_loads:
+        if P >= critical_load:
+            break
+        output = solve_single_pile(pile_data, soil_profile, {**load_case, 'axialLoad': P}, sweep_config)
+        if not output['success'] or not output['results']['converged']:
+            break
+        deflection = output['results']['deflections'][0]
+        # Head deflection must keep growing in the same direction
+        if curve and (deflection * curve[-1]['headDeflection'] < 0
+                      or abs(deflection) < abs(curve[-1]['headDeflection'])):
+            break
+        curve.append({'axialLoad': float(P), 'headDeflection': deflection})
+
+    return {
+        'criticalLoad': critical_load,
+        'amplificationFactor': amplification,
+        'modeShape': mode,
+        'deflectionCurve': curve,
+    }
 
-def apply_boundary_conditions(K, bc_type):
+
+def solve_nonlinear(K_pile, F, springs, diameter, max_iter, tol, soil_movement=None, y_start=None,
+                    base=None):
     """
-    Apply boundary conditions to stiffness matrix
+    Newton-Raphson iteration on the p-y soil springs
+
+    y_start (including fictitious nodes) warm-starts the iteration, e.g.
+    from the previous flexural stiffness update. base holds optional tip
+    shear and moment springs (see build_base_springs), iterated together
+    with the soil.
+
+    Soil reaction is a function of the pile displacement relative to the
+    free-field soil, p(y - y_soil), so an imposed soil movement loads the
+    pile even without applied loads.
+
+    Each iteration linearizes the soil about the current deflected shape
+    using tangent spring stiffnesses and solves for the deflection
+    correction. Where a p-y curve is flat or softening (tangent <= 0),
+    the secant stiffness is used instead to keep the system positive
+    definite. Curves with a vertical initial tangent (e.g. Matlock's
+    cube-root curve) make plain Newton steps oscillate about zero
+    relative deflection, so nodes whose relative deflection changed sign
+    in the last step also switch to the secant stiffness. The residual is
+    still evaluated exactly, so the converged solution is unaffected.
 
-    Currently implements free head (M=0, V=0)
-    TODO: Implement fixed head, pinned head
+    Returns
+    -------
+    y : ndarray
+        Converged deflections (m), including fictitious nodes
+    p : ndarray
+        Soil reactions at converged deflections (kN/m), real nodes only
+    converged : bool
+        True if max |Δy| fell below tol within max_iter iterations
+    iterations : int
+        Number of iterations performed
     """
 
-    # For free head: modify first two rows
-    # This is a simplified implementation
-    # Full implementation will properly handle boundary conditions
+    n = K_pile.shape[0]
+    real = slice(N_GHOST, n - N_GHOST)
+    if soil_movement is None:
+        soil_movement = np.zeros(n - 2 * N_GHOST)
+
+    y = np.zeros(n) if y_start is None else y_start.copy()
+    converged = False
+    iterations = 0
+    sign_changed = np.zeros(n - 2 * N_GHOST, dtype=bool)
 
-    modifications = {
-        'type': bc_type,
-        'applied': True
+    for iterations in range(1, max_iter + 1):
+        y_rel = y[real] - soil_movement
+        p, k_tangent, k_secant = evaluate_springs(springs, y_rel, diameter)
+
+        p_ext = np.zeros(n)
+        k_soil = np.zeros(n)
+        p_ext[real] = p
+        k_soil[real] = np.where((k_tangent > 0) & ~sign_changed, k_tangent, k_secant)
+
+        residual = F - K_pile @ y - p_ext
+        K_total = K_pile + sparse.diags(k_soil)
+        if base is not None:
+            base_terms, base_tangent, _, _ = base_spring_terms(y, base)
+            residual = residual - base_terms
+            K_total = K_total + base_tangent
+        K_total = K_total.tocsc()
+        dy = linalg.spsolve(K_total, residual)
+
+        if not np.all(np.isfinite(dy)):
+            raise ValueError('singular stiffness matrix (check soil profile and boundary conditions)')
+
+        y = y + dy
+        sign_changed = np.sign(y[real] - soil_movement) * np.sign(y_rel) < 0
+
+        if np.max(np.abs(dy)) <= tol:
+            converged = True
+            break
+
+    p, _, _ = evaluate_springs(springs, y[real] - soil_movement, diameter)
+
+    return y, p, converged, iterations
+
+
+def build_base_springs(base_springs, h):
+    """
+    Tip shear and moment springs from config['baseSprings']
+
+    Each spring follows a hyperbola R = k·u / (1 + k·|u|/R_ult), starting
+    at the initial stiffness k (kN/m for shear, kN·m/rad for moment) and
+    approaching the capacity R_ult (kN, kN·m); a capacity of 0 keeps the
+    spring linear. Returns None when neither spring has stiffness.
+    """
+
+    if not base_springs:
+        return None
+
+    base = {
+        key: float(base_springs.get(key) or 0.0)
+        for key in ('shearStiffness', 'shearCapacity', 'rotationalStiffness', 'momentCapacity')
     }
+    if min(base.values()) < 0:
+        raise ValueError('stiffness and capacity must not be negative')
+    if base['shearStiffness'] == 0 and base['rotationalStiffness'] == 0:
+        return None
+
+    base['h'] = h
+    return base
+
+
+def hyperbolic_spring(stiffness, capacity, displacement):
+    """Resistance and tangent stiffness of a hyperbolic spring"""
 
-    return K, modifications
+    if capacity <= 0:
+        return stiffness * displacement, stiffness
 
+    ratio = 1 + stiffness * abs(displacement) / capacity
+    return stiffness * displacement / ratio, stiffness / ratio**2
 
-def create_load_vector(n_nodes, lateral_load, moment, h):
+
+def base_spring_terms(y_ext, base):
     """
-    Create load vector for applied loads at pile head
+    Base shear and moment springs on the tip boundary rows
+
+    The free tip conditions M = 0 and V = 0 become M(L) = -M_b and
+    V(L) = V_b, where the base shear V_b (kN) resists tip deflection and
+    the base moment M_b (kN·m) resists tip slope, in the same sense as a
+    head rotational restraint.
+
+    Returns the terms added to K·y on the tip rows, their tangent
+    stiffness (sparse) and V_b and M_b.
     """
 
-    F = np.zeros(n_nodes)
+    n = len(y_ext)
+    tip = n - N_GHOST - 1
+    h = base['h']
 
-    # Apply lateral load at pile head (node 0)
-    # Distribute to adjacent nodes based on finite difference scheme
-    F[0] = lateral_load / h**3  # Scaled for FD formulation
+    tip_slope = (y_ext[tip + 1] - y_ext[tip - 1]) / (2 * h)
+    base_shear, k_shear = hyperbolic_spring(base['shearStiffness'], base['shearCapacity'], y_ext[tip])
+    base_moment, k_rotation = hyperbolic_spring(
+        base['rotationalStiffness'], base['momentCapacity'], tip_slope
+    )
 
-    # Moment creates equivalent loads
-    if moment != 0:
-        F[0] += moment / h**2
+    terms = np.zeros(n)
+    terms[n - 2] = base_moment
+    terms[n - 1] = -base_shear
+    tangent = sparse.coo_matrix(
+        ([k_rotation / (2 * h), -k_rotation / (2 * h), -k_shear],
+         ([n - 2, n - 2, n - 1], [tip + 1, tip - 1, tip])),
+        shape=(n, n)
+    )
 
-    return F
+    return terms, tangent.tocsr(), base_shear, base_moment
 
 
-def calculate_moments(y, h, EI):
+def section_properties(pile_data, depths):
     """
-    Calculate bending moments from deflections
-    M = -EI * d²y/dx²
+    Flexural rigidity and diameter at each node
+
+    Each entry of pile_data['sections'] covers startDepth to endDepth
+    (measured below the pile head) with diameter and EI at its start;
+    optional endDiameter and endEI make the section tapered, varying
+    linearly over its length. Nodes outside every section use the
+    pile's base diameter and EI. A node on a section boundary takes the
+    properties of the deeper section.
     """
 
-    n = len(y)
-    moments = np.zeros(n)
+    EI_nodes = np.full(len(depths), float(pile_data['EI']))
+    diameter_nodes = np.full(len(depths), float(pile_data['diameter']))
+    sections = sorted(pile_data.get('sections') or [], key=lambda sec: sec['startDepth'])
 
-    # Central difference for interior points
-    for i in range(1, n-1):
-        d2y_dx2 = (y[i-1] - 2*y[i] + y[i+1]) / h**2
-        moments[i] = -EI * d2y_dx2
+    for idx, sec in enumerate(sections):
+        top, bottom = sec['startDepth'], sec['endDepth']
+        if bottom <= top:
+            raise ValueError(f'section {idx + 1} end depth must be below its start depth')
+        if idx > 0 and top < sections[idx - 1]['endDepth']:
+            raise ValueError(f'section {idx + 1} overlaps the section above')
 
-    # Boundary points (one-sided differences)
-    moments[0] = -EI * (2*y[0] - 5*y[1] + 4*y[2] - y[3]) / h**2
-    moments[-1] = -EI * (2*y[-1] - 5*y[-2] + 4*y[-3] - y[-4]) / h**2
+        D_top = sec['diameter']
+        D_bottom = sec.get('endDiameter') or D_top
+        EI_top = sec['EI']
+        EI_bottom = sec.get('endEI') or EI_top
+        if min(D_top, D_bottom, EI_top, EI_bottom) <= 0:
+            raise ValueError(f'section {idx + 1} diameter and EI must be positive')
 
-    return moments
+        is_last = idx == len(sections) - 1
+        inside = (depths >= top) & ((depths < bottom) | (is_last & np.isclose(depths, bottom)))
+        t = (depths[inside] - top) / (bottom - top)
+        diameter_nodes[inside] = D_top + (D_bottom - D_top) * t
+        EI_nodes[inside] = EI_top + (EI_bottom - EI_top) * t
 
+    return EI_nodes, diameter_nodes
 
-def calculate_shears(y, h, EI):
+
+def build_section_model(pile_data, EI_nodes, diameter_nodes, axial_load):
     """
-    Calculate shear forces from deflections
-    V = -EI * d³y/dx³
+    Nonlinear section behaviour at every node, or None for elastic piles
+
+    Returns the per-node sections (RC moment-curvature curves or steel
+    capacities), their initial EI, stiffness(section, curvature) and
+    state(section, curvature) functions, and whether the sections soften
+    (EI is updated by the solver) or are only checked for yield.
     """
 
-    n = len(y)
-    shears = np.zeros(n)
+    section_curves = build_section_curves(pile_data, diameter_nodes, axial_load)
+    if section_curves is not None:
+        return {
+            'material': 'concrete',
+            'sections': section_curves,
+            'initialEI': np.array([curve['initialEI'] for curve in section_curves]),
+            'stiffness': secant_stiffness,
+            'state': section_state,
+            'softening': True,
+        }
 
-    # Central difference for interior points
-    for i in range(2, n-2):
-        d3y_dx3 = (-y[i-2] + 2*y[i-1] - 2*y[i+1] + y[i+2]) / (2 * h**3)
-        shears[i] = -EI * d3y_dx3
+    steel_section = pile_data.get('steelSection')
+    if pile_data.get('material') == 'steel' and steel_section:
+        capacities = [
+            steel_capacity(float(D), pile_data.get('wallThickness'), steel_section, axial_load, float(EI))
+            for D, EI in zip(diameter_nodes, EI_nodes)
+        ]
+        return {
+            'material': 'steel',
+            'sections': capacities,
+            'initialEI': EI_nodes,
+            'stiffness': plastic_secant_stiffness,
+            'state': steel_section_state,
+            'softening': bool(steel_section.get('plasticHinge')),
+        }
 
-    # Boundary points (simplified - will improve later)
-    shears[0] = shears[2]
-    shears[1] = shears[2]
-    shears[-1] = shears[-3]
-    shears[-2] = shears[-3]
+    return None
 
-    return shears
 
+def build_section_curves(pile_data, diameter_nodes, axial_load):
+    """
+    Moment-curvature curve for every node of a nonlinear RC pile
+
+    Applies to concrete piles whose reinforcement has nonlinearEI set;
+    returns None otherwise. Nodes sharing a diameter share one curve.
+    """
+
+    reinforcement = pile_data.get('reinforcement')
+    if pile_data.get('material') != 'concrete' or not reinforcement or not reinforcement.get('nonlinearEI'):
+        return None
+
+    curves = {}
+    node_curves = []
+    for diameter in diameter_nodes:
+        key = round(float(diameter), 4)
+        if key not in curves:
+            curves[key] = moment_curvature(key, reinforcement, axial_load)
+        node_curves.append(curves[key])
+
+    return node_curves
+
+
+def depth_ranges(depths, mask):
+    """Contiguous depth ranges [{top, bottom}] where mask is True"""
+
+    ranges = []
+    start = None
+
+    for i, flagged in enumerate(mask):
+        if flagged and start is None:
+            start = i
+        if start is not None and (not flagged or i == len(mask) - 1):
+            stop = i if flagged else i - 1
+            ranges.append({'top': float(depths[start]), 'bottom': float(depths[stop])})
+            start = None
+
+    return ranges
+
+
+def interpolate_soil_movement(profile, depths, key='displacement'):
+    """
+    Free-field soil displacement at each node (m)
+
+    profile is a list of {depth, displacement} points (or {depth,
+    settlement} with key='settlement') with depth measured below the
+    pile head. Displacement is interpolated linearly between points and
+    taken as zero outside the tabulated depth range.
+    """
+
+    if not profile:
+        return np.zeros(len(depths))
 
-def calculate_soil_reactions(y, h, EI):
+    z = np.array([point['depth'] for point in profile], dtype=float)
+    movement = np.array([point[key] for point in profile], dtype=float)
+    if len(z) < 2:
+        raise ValueError('needs at least two points')
+    if np.any(np.diff(z) <= 0):
+        raise ValueError('depths must be strictly increasing')
+
+    return np.interp(depths, z, movement, left=0.0, right=0.0)
+
+
+def assemble_pile_stiffness(n_nodes, h, EI_nodes, P_axial):
+    """
+    Assemble pile stiffness matrix using finite differences
+
+    Beam-column equation at each real node m:
+        d²/dx²(EI·d²y/dx²) + P·d²y/dx² + p = q
+
+    With R = EI at the nodes, the flexural term is
+        [R(m-1)·y(m-2) - 2(R(m-1)+R(m))·y(m-1) + (R(m-1)+4R(m)+R(m+1))·y(m)
+         - 2(R(m)+R(m+1))·y(m+1) + R(m+1)·y(m+2)] / h⁴
+    which reduces to the standard 5-point stencil for uniform EI. EI
+    beyond the pile ends is taken equal to the end value.
+
+    Boundary rows (head: 0-1, tip: n+2..n+3) are left empty for
+    apply_boundary_conditions.
+    """
+
+    size = n_nodes + 2 * N_GHOST
+    K = sparse.lil_matrix((size, size))
+
+    # Extend EI to the fictitious nodes
+    R = np.concatenate(([EI_nodes[0]], EI_nodes, [EI_nodes[-1]]))
+
+    for m in range(n_nodes):
+        row = m + N_GHOST
+        R_prev, R_m, R_next = R[m], R[m + 1], R[m + 2]
+
+        K[row, row - 2] += R_prev / h**4
+        K[row, row - 1] += -2 * (R_prev + R_m) / h**4
+        K[row, row] += (R_prev + 4 * R_m + R_next) / h**4
+        K[row, row + 1] += -2 * (R_m + R_next) / h**4
+        K[row, row + 2] += R_next / h**4
+
+        # P-delta effect (compression positive softens the pile)
+        if P_axial != 0:
+            K[row, row - 1] += P_axial / h**2
+            K[row, row] += -2 * P_axial / h**2
+            K[row, row + 1] += P_axial / h**2
+
+    return K.tocsr()
+
+
+def apply_boundary_conditions(K, F, bc_type, h, EI_nodes, P_axial, lateral_load, moment,
+                              head_values=None):
+    """
+    Apply pile head and pile tip boundary conditions
+
+    Head conditions (two equations written at node 0), following the
+    five LPILE head types plus the common fixed and pinned cases:
+        free-head:            M = M0 and V = Pt
+        fixed-head:           slope = 0 and V = Pt
+        pinned-head:          y = 0 and M = M0 (lateral load goes into the support)
+        rotational-restraint: M - kθ·slope = M0 and V = Pt
+        specified-slope:      slope = S and V = Pt
+        specified-deflection: y = y0 and M = M0
+        deflection-slope:     y = y0 and slope = S
+
+    head_values supplies kθ ('rotationalStiffness', kN·m/rad), S ('slope',
+    rad) and y0 ('deflection', m). kθ = 0 recovers the free head and
+    kθ → ∞ the fixed head.
+
+    Tip conditions: free tip, M = 0 and V = 0. Base springs are added on
+    these rows during the nonlinear solution (see base_spring_terms).
+    """
+
+    K = K.tolil()
+    F = F.copy()
+    head_values = head_values or {}
+    k_rot = head_values.get('rotationalStiffness', 0.0)
+    head_slope = head_values.get('slope', 0.0)
+    head_deflection = head_values.get('deflection', 0.0)
+
+    n = K.shape[0]
+    head = N_GHOST
+    tip = n - N_GHOST - 1
+
+    if bc_type == 'free-head':
+        set_moment_row(K, 0, head, h, EI_nodes[0])
+        F[0] = moment
+        set_shear_row(K, 1, head, h, EI_nodes[0], EI_nodes[1], P_axial)
+        F[1] = lateral_load
+    elif bc_type == 'fixed-head':
+        set_slope_row(K, 0, head, h)
+        F[0] = 0.0
+        set_shear_row(K, 1, head, h, EI_nodes[0], EI_nodes[1], P_axial)
+        F[1] = lateral_load
+    elif bc_type == 'pinned-head':
+        set_deflection_row(K, 0, head)
+        F[0] = 0.0
+        set_moment_row(K, 1, head, h, EI_nodes[0])
+        F[1] = moment
+    elif bc_type == 'rotational-restraint':
+        if k_rot < 0:
+            raise ValueError('Rotational stiffness must not be negative')
+        set_moment_row(K, 0, head, h, EI_nodes[0])
+        K[0, head - 1] += k_rot / (2 * h)
+        K[0, head + 1] -= k_rot / (2 * h)
+        F[0] = moment
+        set_shear_row(K, 1, head, h, EI_nodes[0], EI_nodes[1], P_axial)
+        F[1] = lateral_load
+    elif bc_type == 'specified-slope':
+        set_slope_row(K, 0, head, h)
+        F[0] = head_slope
+        set_shear_row(K, 1, head, h, EI_nodes[0], EI_nodes[1], P_axial)
+        F[1] = lateral_load
+    elif bc_type == 'specified-deflection':
+        set_deflection_row(K, 0, head)
+        F[0] = head_deflection
+        set_moment_row(K, 1, head, h, EI_nodes[0])
+        F[1] = moment
+    elif bc_type == 'deflection-slope':
+        set_deflection_row(K, 0, head)
+        F[0] = head_deflection
+        set_slope_row(K, 1, head, h)
+        F[1] = head_slope
+    else:
+        raise ValueError(f"Unknown boundary condition '{bc_type}'")
+
+    # Free tip: zero moment and zero shear
+    set_moment_row(K, n - 2, tip, h, EI_nodes[-1])
+    F[n - 2] = 0.0
+    set_shear_row(K, n - 1, tip, h, EI_nodes[-2], EI_nodes[-1], P_axial)
+    F[n - 1] = 0.0
+
+    return K.tocsr(), F
+
+
+def set_deflection_row(K, row, node):
+    """Boundary row for y(node)"""
+
+    K[row, :] = 0
+    K[row, node] = 1.0
+
+
+def set_slope_row(K, row, node, h):
+    """Boundary row for dy/dx at node (central difference)"""
+
+    K[row, :] = 0
+    K[row, node - 1] = -1 / (2 * h)
+    K[row, node + 1] = 1 / (2 * h)
+
+
+def set_moment_row(K, row, node, h, EI):
+    """Boundary row for M = EI·y'' at node"""
+
+    K[row, :] = 0
+    K[row, node - 1] = EI / h**2
+    K[row, node] = -2 * EI / h**2
+    K[row, node + 1] = EI / h**2
+
+
+def set_shear_row(K, row, node, h, EI_before, EI_after, P_axial):
+    """
+    Boundary row for V = dM/dx + P·y' at node
+
+    dM/dx is the central difference of M = EI·y'' at the neighbouring
+    nodes, with EI_before at node - 1 and EI_after at node + 1, so a
+    stiffness change next to the pile end (a hinge or section step) is
+    felt by the shear condition. Uniform EI gives EI·y'''.
+    """
+
+    K[row, :] = 0
+    K[row, node - 2] = -EI_before / (2 * h**3)
+    K[row, node - 1] = EI_before / h**3 - P_axial / (2 * h)
+    K[row, node] = (EI_after - EI_before) / (2 * h**3)
+    K[row, node + 1] = -EI_after / h**3 + P_axial / (2 * h)
+    K[row, node + 2] = EI_after / (2 * h**3)
+
+
+def collect_point_loads(load_case):
+    """
+    Gather the point loads of a load case
+
+    The primary lateral load and moment act at loadDepth (0 = pile head);
+    any entries in pointLoads follow in order. Returns a list of dicts
+    with depth (m), lateralLoad (kN) and moment (kN·m).
+    """
+
+    loads = [{
+        'depth': load_case.get('loadDepth') or 0.0,
+        'lateralLoad': load_case.get('lateralLoad') or 0.0,
+        'moment': load_case.get('moment') or 0.0,
+    }]
+
+    for load in load_case.get('pointLoads') or []:
+        loads.append({
+            'depth': load.get('depth') or 0.0,
+            'lateralLoad': load.get('lateralLoad') or 0.0,
+            'moment': load.get('moment') or 0.0,
+        })
+
+    return loads
+
+
+def create_load_vector(n_nodes, h, point_loads, distributed_loads=None):
+    """
+    Create load vector for loads applied along the pile (kN/m)
+
+    Distributed loads are piecewise-linear segments q(z) from topDepth to
+    bottomDepth (kN/m); each node receives the average of q over its
+    tributary length, so partial segments and jumps in q are captured.
+
+    A point load at depth z is shared between the two nodes bracketing z
+    in proportion to its distance from each and divided by the node's
+    tributary length (h, or h/2 at the head and tip). A point moment C is
+    applied as an equivalent couple of forces ±C/h at z ∓ h/2, shifted to
+    stay on the pile near either end. Head loads enter through the
+    boundary condition rows instead.
     """
-    Calculate soil reactions from deflections
-    p = -EI * d⁴y/dx⁴ (from beam-on-foundation equation)
 
-    Using 5-point stencil for 4th derivative
+    F = np.zeros(n_nodes + 2 * N_GHOST)
+    length = (n_nodes - 1) * h
+
+    for load in distributed_loads or []:
+        F[N_GHOST:n_nodes + N_GHOST] += distributed_load_at_nodes(n_nodes, h, load)
+
+    for load in point_loads:
+        z = load['depth']
+        add_point_force(F, n_nodes, h, z, load['lateralLoad'])
+        if load['moment'] != 0:
+            upper = min(max(z - h / 2, 0.0), length - h)
+            add_point_force(F, n_nodes, h, upper, load['moment'] / h)
+            add_point_force(F, n_nodes, h, upper + h, -load['moment'] / h)
+
+    return F
+
+
+def distributed_load_at_nodes(n_nodes, h, load):
+    """
+    Average intensity of one linearly varying distributed load over the
+    tributary length of each node (kN/m)
     """
 
-    n = len(y)
-    reactions = np.zeros(n)
+    top, bottom = load['topDepth'], load['bottomDepth']
+    q_top, q_bottom = load['topIntensity'], load['bottomIntensity']
+    length = (n_nodes - 1) * h
+
+    def intensity(z):
+        return q_top + (q_bottom - q_top) * (z - top) / (bottom - top)
+
+    q_nodes = np.zeros(n_nodes)
+    for i in range(n_nodes):
+        lower = max(i * h - h / 2, 0.0, top)
+        upper = min(i * h + h / 2, length, bottom)
+        if upper <= lower:
+            continue
 
-    # Interior points (5-point stencil)
-    for i in range(2, n-2):
-        d4y_dx4 = (y[i-2] - 4*y[i-1] + 6*y[i] - 4*y[i+1] + y[i+2]) / h**4
-        reactions[i] = -EI * d4y_dx4
+        # Trapezoidal rule is exact for the linear segment
+        force = (intensity(lower) + intensity(upper)) / 2 * (upper - lower)
+        tributary = h / 2 if i in (0, n_nodes - 1) else h
+        q_nodes[i] = force / tributary
 
-    # Boundary points - use simplified approach
-    # (soil reaction is typically small near pile head and tip)
-    reactions[0] = reactions[2]
-    reactions[1] = reactions[2]
-    reactions[-1] = reactions[-3]
-    reactions[-2] = reactions[-3]
+    return q_nodes
 
-    return reactions
+
+def add_point_force(F, n_nodes, h, depth, force):
+    """Distribute a concentrated force onto the nodes bracketing depth"""
+
+    s = min(max(depth / h, 0.0), n_nodes - 1)
+    i = min(int(np.floor(s)), n_nodes - 2)
+    t = s - i
+
+    for node, share in ((i, 1 - t), (i + 1, t)):
+        tributary = h / 2 if node in (0, n_nodes - 1) else h
+        F[node + N_GHOST] += force * share / tributary
+
+
+def calculate_moments(y_ext, h, EI_nodes):
+    """
+    Calculate bending moments from deflections
+    M = EI * d²y/dx²
+
+    y_ext includes the fictitious nodes, so central differences are
+    used at every real node including the head and tip.
+    """
+
+    n = len(EI_nodes)
+    moments = np.zeros(n)
+
+    for i in range(n):
+        k = i + N_GHOST
+        d2y_dx2 = (y_ext[k-1] - 2*y_ext[k] + y_ext[k+1]) / h**2
+        moments[i] = EI_nodes[i] * d2y_dx2
+
+    return moments
+
+
+def calculate_shears(y_ext, h, EI_nodes, P_axial):
+    """
+    Calculate shear forces from deflections
+    V = dM/dx + P * dy/dx, with M = EI * d²y/dx² at the neighbouring nodes
+    """
+
+    n = len(EI_nodes)
+    shears = np.zeros(n)
+
+    # EI carried onto the fictitious nodes beyond each end
+    EI_ext = np.concatenate(([EI_nodes[0]], EI_nodes, [EI_nodes[-1]]))
+
+    for i in range(n):
+        k = i + N_GHOST
+        M_before = EI_ext[i] * (y_ext[k-2] - 2*y_ext[k-1] + y_ext[k]) / h**2
+        M_after = EI_ext[i + 2] * (y_ext[k] - 2*y_ext[k+1] + y_ext[k+2]) / h**2
+        dy_dx = (y_ext[k+1] - y_ext[k-1]) / (2 * h)
+        shears[i] = (M_after - M_before) / (2 * h) + P_axial * dy_dx
+
+    return shears
 
 
 # Test function for development
 def test_solver():
     """
-    Simple test case - cantilever beam with tip load
+    Simple test case - free-head pile in soft clay
     """
 
     pile_data = {
@@ -245,13 +1675,28 @@ def test_solver():
     }
 
     soil_profile = {
-        'layers': []  # Ignore soil for now (elastic beam)
+        'layers': [{
+            'id': 'clay',
+            'topDepth': 0.0,
+            'bottomDepth': 10.0,
+            'soilType': 'soft-clay',
+            'pyCurveMethod': 'matlock',
+            'properties': {
+                'unitWeight': 17.0,
+                'effectiveUnitWeight': 7.2,
+                'undrainedShearStrength': 25.0,
+                'epsilon50': 0.02,
+                'J': 0.5
+            }
+        }],
+        'groundwaterDepth': 0.0
     }
 
     load_case = {
         'lateralLoad': 100.0,  # kN
         'moment': 0.0,
-        'axialLoad': 0.0
+        'axialLoad': 0.0,
+        'loadingType': 'static'
     }
 
     config = {
@@ -261,11 +1706,16 @@ def test_solver():
         'convergenceTolerance': 1e-6
     }
 
-    results = solve_pile(pile_data, soil_profile, load_case, config)
+    output = solve_pile(pile_data, soil_profile, load_case, config)
+    if not output['success']:
+        print(f"Test solver failed: {output['error']}")
+        return output
+
+    results = output['results']
 
     print("Test solver results:")
     print(f"  Max deflection: {results['maxDeflection']:.6f} m")
     print(f"  Max moment: {results['maxMoment']:.2f} kN·m")
-    print(f"  Converged: {results['converged']}")
+    print(f"  Converged: {results['converged']} ({results['iterations']} iterations)")
 
     return results
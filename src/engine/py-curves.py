@@ -0,0 +1,717 @@
+"""
+P-Y Curves - Soil Resistance Models
+Generates lateral soil resistance (p) versus deflection (y) curves
+for each soil layer along the pile
+"""
+
+import numpy as np
+
+
+# Registry of p-y curve generators keyed by PYCurveMethod.
+# Each generator takes (properties, context) and returns a backbone
+# function p(y) valid for y >= 0.
+PY_CURVE_GENERATORS = {}
+
+# Unit weight of water (kN/m³)
+GAMMA_WATER = 9.81
+
+
+def effective_unit_weight(properties, below_water):
+    """
+    Unit weight for overburden: total above the water table; below it
+    the layer's effectiveUnitWeight, or the buoyant γ - γw if not given
+    """
+
+    gamma = required_property(properties, 'unitWeight')
+    if not below_water:
+        return gamma
+
+    if properties.get('effectiveUnitWeight') is not None:
+        return properties['effectiveUnitWeight']
+
+    if gamma < GAMMA_WATER:
+        raise ValueError(f'unit weight {gamma} kN/m³ is lighter than water; give an effective unit weight')
+    return gamma - GAMMA_WATER
+
+
+def vertical_effective_stress(soil_profile, depths):
+    """
+    Vertical effective stress σ'v (kPa) at each depth
+
+    Integrates the overburden down through every layer from the ground
+    surface (the top of the shallowest layer), switching to the buoyant
+    unit weight below groundwaterDepth. Depths above the ground surface
+    and gaps between layers carry no weight.
+    """
+
+    layers = sorted(soil_profile.get('layers', []), key=lambda layer: layer['topDepth'])
+    gw_depth = soil_profile.get('groundwaterDepth')
+
+    stresses = np.zeros(len(depths))
+    for layer in layers:
+        top, bottom = layer['topDepth'], layer['bottomDepth']
+
+        # Split the layer at the water table
+        segments = [(top, bottom, False)]
+        if gw_depth is not None and gw_depth <= top:
+            segments = [(top, bottom, True)]
+        elif gw_depth is not None and gw_depth < bottom:
+            segments = [(top, gw_depth, False), (gw_depth, bottom, True)]
+
+        for seg_top, seg_bottom, below_water in segments:
+            gamma = effective_unit_weight(layer['properties'], below_water)
+            thickness = np.clip(np.asarray(depths, dtype=float) - seg_top, 0.0, seg_bottom - seg_top)
+            stresses += gamma * thickness
+
+    return stresses
+
+
+def default_epsilon50(cu):
+    """
+    Typical ε50 for clay when not specified, from undrained strength (kPa)
+    """
+
+    if cu < 25:
+        return 0.02
+    if cu < 50:
+        return 0.01
+    if cu < 100:
+        return 0.007
+    if cu < 200:
+        return 0.005
+    return 0.004
+
+
+def required_property(properties, name):
+    """
+    Fetch a required, positive soil property or raise a readable error
+    """
+
+    value = properties.get(name)
+    if value is None or value <= 0:
+        raise ValueError(f"'{name}' must be a positive value")
+    return value
+
+
+def average_unit_weight(properties, context):
+    """
+    Average effective unit weight of the overburden, σ'v/z, falling back
+    to the layer's own unit weight at the ground surface
+    """
+
+    if context['depth'] > 0 and context['verticalStress'] > 0:
+        return context['verticalStress'] / context['depth']
+
+    gw_depth = context.get('groundwaterDepth')
+    return effective_unit_weight(properties, gw_depth is not None and gw_depth <= 0)
+
+
+def slope_wedge_factor(context):
+    """
+    Reduction of the shallow wedge resistance of clay on ground sloping
+    down at θ = context['groundSlope'] (degrees) in the loading
+    direction: 1/(1 + tan θ) (Reese et al. 2006), so that the flow-around
+    resistance is reached deeper, as Georgiadis & Georgiadis (2010)
+    found for undrained slopes
+    """
+
+    return 1 / (1 + np.tan(np.radians(context.get('groundSlope') or 0.0)))
+
+
+def matlock_soft_clay(properties, context):
+    """
+    Matlock (1970) soft clay p-y curve
+
+    Static:  p = 0.5 pu (y/y50)^(1/3), capped at pu beyond 8·y50
+    Cyclic:  same curve up to 3·y50 (p = 0.72 pu), then constant at
+             0.72 pu below the transition depth xr, or degrading to
+             0.72 pu·z/xr at 15·y50 above it
+
+    On sloping ground the wedge resistance is reduced by
+    slope_wedge_factor and xr moves down to where it reaches 9cu·b.
+    """
+
+    cu = required_property(properties, 'undrainedShearStrength')
+    J = properties.get('J', 0.5)
+    eps50 = properties.get('epsilon50') or default_epsilon50(cu)
+
+    z = context['depth']
+    b = context['diameter']
+    sigma_v = context['verticalStress']
+
+    # Ultimate resistance: wedge failure near surface, flow-around at depth
+    slope_factor = slope_wedge_factor(context)
+    pu = min((3 + sigma_v / cu + J * z / b) * slope_factor, 9) * cu * b
+    y50 = 2.5 * eps50 * b
+
+    if context.get('loadingType') != 'cyclic':
+        def backbone(y):
+            return np.where(
+                y <= 8 * y50,
+                0.5 * pu * np.cbrt(y / y50),
+                pu
+            )
+        return backbone
+
+    # Transition depth between shallow (degrading) and deep behavior,
+    # using the average effective unit weight of the overburden
+    gamma = average_unit_weight(properties, context)
+    xr = (9 / slope_factor - 3) * b / (gamma * b / cu + J)
+    p_cyclic = 0.72 * pu
+    p_residual = p_cyclic * min(z / xr, 1.0)
+
+    def backbone(y):
+        p_initial = 0.5 * pu * np.cbrt(y / y50)
+        p_degrading = p_cyclic - (p_cyclic - p_residual) * (y - 3 * y50) / (12 * y50)
+        return np.where(
+            y <= 3 * y50,
+            p_initial,
+            np.where(y <= 15 * y50, p_degrading, p_residual)
+        )
+
+    return backbone
+
+
+PY_CURVE_GENERATORS['matlock'] = matlock_soft_clay
+
+
+def stiff_clay_subgrade_modulus(cu, cyclic):
+    """
+    Reese et al. (1975) subgrade modulus ks/kc (kN/m³) from average
+    undrained strength (kPa)
+    """
+
+    if cu < 100:
+        return 54300 if cyclic else 135700
+    if cu < 200:
+        return 108600 if cyclic else 271400
+    return 217100 if cyclic else 542900
+
+
+def reese_stiff_clay(properties, context):
+    """
+    Stiff clay p-y curve, selecting the model from the water table
+
+    Layers whose top is at or below the water table have free water at
+    the pile-soil interface and use Reese et al. (1975); layers above it
+    use Welch & Reese (1972) stiff clay without free water.
+    """
+
+    gw_depth = context.get('groundwaterDepth')
+    has_free_water = gw_depth is not None and gw_depth <= context['layerTop']
+
+    if has_free_water:
+        return reese_stiff_clay_free_water(properties, context)
+    return welch_reese_stiff_clay(properties, context)
+
+
+def reese_stiff_clay_free_water(properties, context):
+    """
+    Reese, Cox & Koop (1975) stiff clay with free water
+
+    Initial straight line (ks·z·y) followed by a parabola, a softening
+    branch and a residual plateau. A user-supplied ks is used for both
+    static and cyclic loading; otherwise ks/kc come from the standard
+    table. As and Ac use the usual tanh fits to the published charts.
+    The wedge resistance pct is reduced on sloping ground by
+    slope_wedge_factor.
+    """
+
+    cu = required_property(properties, 'undrainedShearStrength')
+    eps50 = properties.get('epsilon50') or default_epsilon50(cu)
+    cyclic = context.get('loadingType') == 'cyclic'
+    ks = properties.get('ks') or stiff_clay_subgrade_modulus(cu, cyclic)
+
+    z = context['depth']
+    b = context['diameter']
+    sigma_v = context['verticalStress']
+
+    # Ultimate resistance: wedge near surface, flow-around at depth
+    pct = (2 * cu * b + sigma_v * b + 2.83 * cu * z) * slope_wedge_factor(context)
+    pcd = 11 * cu * b
+    pc = min(pct, pcd)
+
+    y50 = eps50 * b
+    k_initial = ks * z
+
+    if not cyclic:
+        As = 0.2 + 0.4 * np.tanh(0.62 * z / b)
+        ya = As * y50
+        p_residual = pc * (0.5 * np.sqrt(6 * As) - 0.411 - 0.75 * As)
+
+        def curve(y):
+            p_parabola = 0.5 * pc * np.sqrt(y / y50)
+            p_softening = p_parabola - 0.055 * pc * np.power(np.maximum(y - ya, 0) / ya, 1.25)
+            p_linear = 0.5 * pc * np.sqrt(6 * As) - 0.411 * pc - 0.0625 * pc * (y - 6 * ya) / y50
+            return np.where(
+                y <= ya,
+                p_parabola,
+                np.where(
+                    y <= 6 * ya,
+                    p_softening,
+                    np.where(y <= 18 * ya, p_linear, p_residual)
+                )
+            )
+    else:
+        Ac = 0.2 + 0.1 * np.tanh(1.5 * z / b)
+        yp = 4.1 * Ac * y50
+
+        def curve(y):
+            p_parabola = Ac * pc * (1 - np.power(np.abs((y - 0.45 * yp) / (0.45 * yp)), 2.5))
+            p_linear = 0.936 * Ac * pc - 0.085 * pc * (y - 0.6 * yp) / y50
+            p_residual = 0.936 * Ac * pc - 0.102 * pc * yp / y50
+            return np.where(
+                y <= 0.6 * yp,
+                p_parabola,
+                np.where(y <= 1.8 * yp, p_linear, p_residual)
+            )
+
+    def backbone(y):
+        # Initial straight line governs until it meets the curve
+        return np.maximum(np.minimum(k_initial * y, curve(y)), 0)
+
+    return backbone
+
+
+def welch_reese_stiff_clay(properties, context):
+    """
+    Welch & Reese (1972) stiff clay without free water
+
+    Static:  p = 0.5 pu (y/y50)^(1/4), capped at pu beyond 16·y50
+    Cyclic:  after N cycles (100 if not given) the deflection at each
+             load level grows to yc = ys + y50·C·log10 N, with
+             C = 9.6 (p/pu)^4
+
+    The wedge part of pu is reduced on sloping ground as for soft clay.
+    """
+
+    cu = required_property(properties, 'undrainedShearStrength')
+    J = properties.get('J', 0.5)
+    eps50 = properties.get('epsilon50') or default_epsilon50(cu)
+
+    z = context['depth']
+    b = context['diameter']
+    sigma_v = context['verticalStress']
+
+    pu = min((3 + sigma_v / cu + J * z / b) * slope_wedge_factor(context), 9) * cu * b
+    y50 = 2.5 * eps50 * b
+
+    # Deflection at which pu is reached: the static curve gives
+    # ys = 16·y50·(p/pu)^4, so yc = (16 + 9.6 log10 N)·y50·(p/pu)^4
+    y_ultimate = 16 * y50
+    if context.get('loadingType') == 'cyclic':
+        cycles = max(context.get('cycles') or 100, 1)
+        y_ultimate = (16 + 9.6 * np.log10(cycles)) * y50
+
+    def backbone(y):
+        return pu * np.minimum(np.power(y / y_ultimate, 0.25), 1.0)
+
+    return backbone
+
+
+PY_CURVE_GENERATORS['reese-stiff-clay'] = reese_stiff_clay
+
+
+# API RP 2GEO initial modulus of subgrade reaction k (kN/m³), read from
+# the design chart at the friction angles typical of each density class
+API_SAND_PHI = [29.0, 33.0, 38.0, 41.0]
+API_SAND_K_ABOVE_WATER = [6800, 24400, 61100, 81400]
+API_SAND_K_BELOW_WATER = [5400, 16300, 33900, 47500]
+API_SAND_DENSITY_INDEX = {'loose': 0, 'medium': 1, 'dense': 2, 'very-dense': 3}
+
+
+def api_sand_coefficients(phi_deg, slope_deg=0.0):
+    """
+    API RP 2GEO ultimate resistance coefficients C1, C2, C3 from φ'
+    (closed-form expressions behind the design chart)
+
+    On ground sloping down at θ = slope_deg in the loading direction the
+    wedge meets the slope a fraction D2 = 1/(1 + tan β·tan θ) of its
+    level-ground length from the pile, and the shallow coefficients are
+    those of Reese et al. (2006) with D1 = 1 - D2: the front face terms
+    scale with D2 and D2² and the side friction terms with
+    4D1³ - 3D1² + 1. C3 (flow-around) is unchanged.
+    """
+
+    phi = np.radians(phi_deg)
+    alpha = phi / 2
+    beta = np.pi / 4 + phi / 2
+    K0 = 0.4
+    Ka = np.tan(np.pi / 4 - phi / 2) ** 2
+
+    tan_slope = np.tan(np.radians(slope_deg))
+    D1 = np.tan(beta) * tan_slope / (1 + np.tan(beta) * tan_slope)
+    D2 = 1 - D1
+    side = 4 * D1**3 - 3 * D1**2 + 1
+
+    tan_bp = np.tan(beta - phi)
+    C1 = (
+        K0 * np.tan(phi) * np.sin(beta) / (tan_bp * np.cos(alpha)) * side
+        + np.tan(beta) ** 2 * np.tan(alpha) / tan_bp * D2**2
+        + K0 * np.tan(beta) * (np.tan(phi) * np.sin(beta) - np.tan(alpha)) * side
+    )
+    C2 = np.tan(beta) / tan_bp * D2 - Ka
+    C3 = Ka * (np.tan(beta) ** 8 - 1) + K0 * np.tan(phi) * np.tan(beta) ** 4
+
+    return C1, C2, C3
+
+
+def api_sand_modulus(properties, below_water):
+    """
+    Initial modulus k (kN/m³): user k0, else from relative density,
+    else interpolated from φ'
+    """
+
+    if properties.get('k0'):
+        return properties['k0']
+
+    table = API_SAND_K_BELOW_WATER if below_water else API_SAND_K_ABOVE_WATER
+    density = properties.get('relativeDensity')
+    if density in API_SAND_DENSITY_INDEX:
+        return table[API_SAND_DENSITY_INDEX[density]]
+
+    return float(np.interp(properties['frictionAngle'], API_SAND_PHI, table))
+
+
+def api_sand(properties, context):
+    """
+    API RP 2GEO sand p-y curve
+
+    p = A pu tanh(k H y / (A pu)), with A = max(3 - 0.8 H/D, 0.9) for
+    static loading and A = 0.9 for cyclic loading. On sloping ground the
+    wedge resistance uses the reduced coefficients of
+    api_sand_coefficients; the slope must be flatter than φ'.
+    """
+
+    phi = required_property(properties, 'frictionAngle')
+    slope = context.get('groundSlope') or 0.0
+    if slope >= phi:
+        raise ValueError(f"ground slope {slope}° is not flatter than the sand friction angle {phi}°")
+
+    H = context['depth']
+    D = context['diameter']
+    sigma_v = context['verticalStress']
+
+    gw_depth = context.get('groundwaterDepth')
+    below_water = gw_depth is not None and H >= gw_depth
+
+    C1, C2, C3 = api_sand_coefficients(phi, slope)
+    k = api_sand_modulus(properties, below_water)
+
+    # Ultimate resistance: shallow wedge vs deep flow-around
+    pus = (C1 * H + C2 * D) * sigma_v
+    pud = C3 * D * sigma_v
+    pu = min(pus, pud)
+
+    if context.get('loadingType') == 'cyclic':
+        A = 0.9
+    else:
+        A = max(3 - 0.8 * H / D, 0.9)
+
+    if pu <= 0:
+        return lambda y: np.zeros_like(y)
+
+    def backbone(y):
+        return A * pu * np.tanh(k * H * y / (A * pu))
+
+    return backbone
+
+
+PY_CURVE_GENERATORS['api-sand'] = api_sand
+
+
+def reese_weak_rock(properties, context):
+    """
+    Reese (1997) weak rock p-y curve
+
+    Linear initial portion p = Kir·y up to yA, then
+    p = (pur/2)(y/yrm)^(1/4) capped at pur. Depth xr is measured from
+    the top of the rock layer.
+    """
+
+    qur = required_property(properties, 'uniaxialStrength')
+    Eir = required_property(properties, 'rockMassModulus')
+    rqd = min(max(properties.get('rqd', 0), 0), 100)
+    krm = properties.get('krm') or 0.0005
+
+    b = context['diameter']
+    xr = max(context['depth'] - context['layerTop'], 0)
+
+    # Strength reduction for fractured rock
+    alpha_r = 1 - 2 / 3 * rqd / 100
+
+    if xr <= 3 * b:
+        pur = alpha_r * qur * b * (1 + 1.4 * xr / b)
+        kir = 100 + 400 * xr / (3 * b)
+    else:
+        pur = 5.2 * alpha_r * qur * b
+        kir = 500
+
+    Kir = kir * Eir
+    yrm = krm * b
+    yA = (pur / (2 * yrm ** 0.25 * Kir)) ** (4 / 3)
+
+    def backbone(y):
+        p_power = np.minimum(0.5 * pur * np.power(y / yrm, 0.25), pur)
+        return np.where(y <= yA, Kir * y, p_power)
+
+    return backbone
+
+
+PY_CURVE_GENERATORS['weak-rock'] = reese_weak_rock
+
+
+def validate_custom_curve(curve):
+    """
+    Check a user p-y table: at least two points, starting at the origin,
+    with strictly increasing y and non-negative p
+    """
+
+    points = curve.get('points', [])
+    depth = curve.get('depth', 0)
+
+    if len(points) < 2:
+        raise ValueError(f'custom p-y curve at {depth} m needs at least two points')
+
+    y = np.array([pt['y'] for pt in points], dtype=float)
+    p = np.array([pt['p'] for pt in points], dtype=float)
+
+    if y[0] != 0 or p[0] != 0:
+        raise ValueError(f'custom p-y curve at {depth} m must start at the origin (0, 0)')
+    if np.any(np.diff(y) <= 0):
+        raise ValueError(f'custom p-y curve at {depth} m must have strictly increasing y values')
+    if np.any(p < 0):
+        raise ValueError(f'custom p-y curve at {depth} m has negative resistance')
+
+    return y, p
+
+
+def custom_py_curve(properties, context):
+    """
+    User-defined p-y curve from one or more tables
+
+    Each table is linearly interpolated in y and held constant beyond its
+    last point. With tables at several depths, p is interpolated linearly
+    in depth between the bracketing tables; nodes above the first or below
+    the last table use the nearest one.
+    """
+
+    curves = context.get('customCurves') or []
+    if not curves:
+        raise ValueError('custom p-y method requires at least one p-y table')
+
+    tables = sorted(
+        ((curve.get('depth', 0), *validate_custom_curve(curve)) for curve in curves),
+        key=lambda table: table[0]
+    )
+    table_depths = np.array([table[0] for table in tables])
+
+    z = context['depth']
+    upper = int(np.clip(np.searchsorted(table_depths, z), 0, len(tables) - 1))
+    lower = max(upper - 1, 0)
+
+    if z <= table_depths[0]:
+        lower = upper = 0
+    elif z >= table_depths[-1]:
+        lower = upper = len(tables) - 1
+
+    if lower == upper:
+        weight = 0.0
+    else:
+        weight = (z - table_depths[lower]) / (table_depths[upper] - table_depths[lower])
+
+    _, y_lower, p_lower = tables[lower]
+    _, y_upper, p_upper = tables[upper]
+
+    def backbone(y):
+        return (
+            (1 - weight) * np.interp(y, y_lower, p_lower)
+            + weight * np.interp(y, y_upper, p_upper)
+        )
+
+    return backbone
+
+
+PY_CURVE_GENERATORS['custom'] = custom_py_curve
+
+
+def downslope_angle(soil_profile):
+    """
+    Ground slope (degrees) that reduces the lateral resistance: the slope
+    angle when the lateral load pushes the pile toward the downslope
+    side, otherwise 0. Loading upslope is analyzed as level ground,
+    conservatively ignoring the extra resistance of the rising ground.
+    """
+
+    slope = soil_profile.get('groundSlope') or 0.0
+    if not 0 <= slope < 90:
+        raise ValueError('ground slope must be between 0 and 90 degrees')
+    if soil_profile.get('slopeDirection') == 'upslope':
+        return 0.0
+    return slope
+
+
+def find_layer(soil_profile, depth):
+    """
+    Find the soil layer containing the given depth
+
+    The bottom of the deepest layer is treated as inside that layer so the
+    pile tip node still receives soil support.
+    """
+
+    layers = soil_profile.get('layers', [])
+
+    for layer in layers:
+        if layer['topDepth'] <= depth < layer['bottomDepth']:
+            return layer
+
+    for layer in layers:
+        if np.isclose(depth, layer['bottomDepth']):
+            return layer
+
+    return None
+
+
+def create_py_curve(layer, context):
+    """
+    Create the p-y curve for a layer at a given depth
+
+    Parameters
+    ----------
+    layer : dict
+        Soil layer (SoilLayer)
+    context : dict
+        Depth-dependent inputs shared by all methods: depth, diameter,
+        loading type, groundwater depth, etc.
+
+    Returns
+    -------
+    curve : callable
+        Odd-symmetric function p(y) returning soil resistance (kN/m)
+    """
+
+    method = layer['pyCurveMethod']
+    generator = PY_CURVE_GENERATORS.get(method)
+
+    if generator is None:
+        raise ValueError(f"P-y curve method '{method}' is not implemented")
+
+    backbone = generator(layer['properties'], context)
+
+    def curve(y):
+        y = np.asarray(y, dtype=float)
+        return np.sign(y) * backbone(np.abs(y))
+
+    return curve
+
+
+def scaled_curve(curve, multiplier):
+    """p-y curve with its resistance scaled by a p-multiplier"""
+
+    def scaled(y):
+        return multiplier * curve(y)
+
+    return scaled
+
+
+def build_soil_springs(soil_profile, depths, diameter, load_case, vertical_stress=None,
+                       p_multiplier=1.0):
+    """
+    Build one p-y curve per pile node
+
+    diameter may be a single value or one value per node (variable-section
+    piles). Returns a list aligned with depths; nodes outside the soil profile
+    (e.g. free-standing length above ground) get None. Depths passed to
+    the p-y generators are measured from the ground surface, taken as the
+    top of the shallowest layer. Every generator receives the vertical
+    effective stress at its node ('verticalStress', kPa), computed from
+    the profile unless given, and the ground slope down in the loading
+    direction ('groundSlope', degrees; see downslope_angle), which the
+    clay and sand generators use to reduce the wedge resistance.
+    p_multiplier scales every curve (pile group shadowing).
+    """
+
+    springs = []
+    layers = soil_profile.get('layers', [])
+    ground_surface = min((layer['topDepth'] for layer in layers), default=0.0)
+    diameters = np.broadcast_to(np.asarray(diameter, dtype=float), np.shape(depths))
+    if vertical_stress is None:
+        vertical_stress = vertical_effective_stress(soil_profile, depths)
+    ground_slope = downslope_angle(soil_profile)
+
+    for depth, node_diameter, sigma_v in zip(depths, diameters, vertical_stress):
+        layer = find_layer(soil_profile, depth)
+        if layer is None:
+            springs.append(None)
+            continue
+
+        gw_depth = soil_profile.get('groundwaterDepth')
+
+        context = {
+            'depth': float(depth) - ground_surface,
+            'diameter': float(node_diameter),
+            'layerTop': layer['topDepth'] - ground_surface,
+            'groundwaterDepth': None if gw_depth is None else gw_depth - ground_surface,
+            'verticalStress': float(sigma_v),
+            'groundSlope': ground_slope,
+            'loadingType': load_case.get('loadingType', 'static'),
+            'cycles': load_case.get('cycles'),
+            'customCurves': [
+                {**curve, 'depth': curve['depth'] - ground_surface}
+                for curve in layer.get('customCurves', [])
+            ],
+        }
+        curve = create_py_curve(layer, context)
+        if p_multiplier != 1.0:
+            curve = scaled_curve(curve, p_multiplier)
+        springs.append(curve)
+
+    # Below a free-standing length the first node in the soil stands for
+    # a tributary length only partly in the ground; scale its curve to
+    # the part below the ground surface
+    first = next((idx for idx, curve in enumerate(springs) if curve is not None), None)
+    if first is not None and first > 0:
+        half_above = (depths[first] - depths[first - 1]) / 2
+        half_below = (depths[first + 1] - depths[first]) / 2 if first + 1 < len(depths) else 0.0
+        in_ground = half_below + min(depths[first] - ground_surface, half_above)
+        springs[first] = scaled_curve(springs[first], in_ground / (half_above + half_below))
+
+    return springs
+
+
+def evaluate_springs(springs, y, diameter):
+    """
+    Evaluate soil resistance and spring stiffnesses at every node
+
+    Returns
+    -------
+    p : ndarray
+        Soil resistance per unit length (kN/m)
+    k_tangent : ndarray
+        Tangent stiffness dp/dy (kN/m²)
+    k_secant : ndarray
+        Secant stiffness p/y (kN/m²)
+    """
+
+    n = len(springs)
+    p = np.zeros(n)
+    k_tangent = np.zeros(n)
+    k_secant = np.zeros(n)
+
+    # Perturbation for numerical tangent, scaled to pile size
+    dy = 1e-6 * diameter
+
+    for i, curve in enumerate(springs):
+        if curve is None:
+            continue
+
+        yi = y[i]
+        p[i] = curve(yi)
+        k_tangent[i] = (curve(yi + dy) - curve(yi - dy)) / (2 * dy)
+
+        if yi != 0 and p[i] != 0:
+            k_secant[i] = p[i] / yi
+        else:
+            k_secant[i] = k_tangent[i]
+
+    return p, k_tangent, k_secant
@@ -0,0 +1,91 @@
+"""
+Scour - Soil Removed Around the Pile
+Soil profile and vertical effective stress after general scour and an
+optional local scour hole at the pile
+"""
+
+import numpy as np
+
+from py_curves import vertical_effective_stress
+
+
+def ground_surface(soil_profile):
+    """Depth of the ground surface below the pile head (top of the shallowest layer)"""
+
+    return min((layer['topDepth'] for layer in soil_profile.get('layers', [])), default=0.0)
+
+
+def strip_soil(soil_profile, level):
+    """Soil profile with everything above the given depth removed"""
+
+    layers = [
+        {**layer, 'topDepth': max(layer['topDepth'], level)}
+        for layer in soil_profile.get('layers', [])
+        if layer['bottomDepth'] > level
+    ]
+    if not layers:
+        raise ValueError('scour removes the whole soil profile')
+
+    return {**soil_profile, 'layers': layers}
+
+
+def scour_levels(soil_profile, scour):
+    """
+    Depths below the pile head of the general scour surface and of the
+    bottom of the local scour hole
+    """
+
+    general = scour.get('scourDepth') or 0.0
+    local = scour.get('localScourDepth') or 0.0
+    if general < 0 or local < 0:
+        raise ValueError('scour depths must not be negative')
+
+    general_level = ground_surface(soil_profile) + general
+    return general_level, general_level + local
+
+
+def scoured_profile(soil_profile, scour):
+    """
+    Soil profile with the soil above the bottom of the scour hole
+    removed; p-y curves are then measured from the scoured surface
+    """
+
+    _, hole_bottom = scour_levels(soil_profile, scour)
+    return strip_soil(soil_profile, hole_bottom)
+
+
+def scoured_vertical_stress(soil_profile, scour, depths, diameter):
+    """
+    Vertical effective stress σ'v (kPa) at each depth after scour
+
+    General scour removes the overburden above the scour surface. Local
+    scour removes it down to the hole bottom at the pile, but when the
+    hole geometry is given (holeBottomWidth from the pile face and
+    holeSideSlope, horizontal over vertical) the soil left around the
+    hole still loads the soil below: it is taken as a surcharge q equal
+    to the effective weight of the locally scoured thickness, acting
+    outside a circle of radius a reaching mid-slope,
+        a = D/2 + Wb + slope·ds/2,
+    which adds q·(1 + (a/z)²)^(-3/2) at depth z below the hole bottom
+    (Boussinesq stress under the centre of a loaded circle's exterior).
+    Without the geometry the local scour is treated like general scour.
+    """
+
+    depths = np.asarray(depths, dtype=float)
+    general_level, hole_bottom = scour_levels(soil_profile, scour)
+    stress = vertical_effective_stress(strip_soil(soil_profile, hole_bottom), depths)
+
+    bottom_width = scour.get('holeBottomWidth')
+    side_slope = scour.get('holeSideSlope')
+    local = hole_bottom - general_level
+    if local <= 0 or bottom_width is None or side_slope is None:
+        return stress
+    if bottom_width < 0 or side_slope < 0:
+        raise ValueError('scour hole width and side slope must not be negative')
+
+    surcharge = float(vertical_effective_stress(strip_soil(soil_profile, general_level), [hole_bottom])[0])
+    radius = diameter / 2 + bottom_width + side_slope * local / 2
+    below = np.maximum(depths - hole_bottom, 1e-9)
+    spread = (1 + (radius / below) ** 2) ** -1.5
+
+    return stress + surcharge * spread
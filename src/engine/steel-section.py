@@ -0,0 +1,167 @@
+"""
+Steel Section Capacity - Pipe and H-Piles
+Yield and plastic moments of steel pile sections, reduced for axial
+load, and the elastic-perfectly plastic stiffness used to form plastic
+hinges
+"""
+
+import numpy as np
+
+
+def pipe_properties(diameter, wall_thickness):
+    """
+    Area (m²), moment of inertia (m⁴), and elastic and plastic section
+    moduli (m³) of a pipe; a wall thickness of half the diameter gives a
+    solid round section
+    """
+
+    inner = max(diameter - 2 * wall_thickness, 0.0)
+
+    return {
+        'area': np.pi / 4 * (diameter**2 - inner**2),
+        'inertia': np.pi / 64 * (diameter**4 - inner**4),
+        'elasticModulus': np.pi / 32 * (diameter**4 - inner**4) / diameter,
+        'plasticModulus': (diameter**3 - inner**3) / 6,
+    }
+
+
+def h_pile_properties(depth, flange_width, flange_thickness, web_thickness, axis='strong'):
+    """
+    Area (m²), moment of inertia (m⁴), and elastic and plastic section
+    moduli (m³) of an H-pile bent about its strong or weak axis
+    """
+
+    d, bf, tf, tw = depth, flange_width, flange_thickness, web_thickness
+    if min(d, bf, tf, tw) <= 0:
+        raise ValueError('H-pile dimensions must be positive')
+    if 2 * tf >= d or tw >= bf:
+        raise ValueError('H-pile flanges or web are too thick for the section')
+
+    web_depth = d - 2 * tf
+    area = 2 * bf * tf + web_depth * tw
+
+    if axis == 'strong':
+        inertia = (bf * d**3 - (bf - tw) * web_depth**3) / 12
+        extreme_fiber = d / 2
+        plastic_modulus = bf * tf * (d - tf) + tw * web_depth**2 / 4
+    elif axis == 'weak':
+        inertia = (2 * tf * bf**3 + web_depth * tw**3) / 12
+        extreme_fiber = bf / 2
+        plastic_modulus = tf * bf**2 / 2 + web_depth * tw**2 / 4
+    else:
+        raise ValueError(f'unknown bending axis: {axis}')
+
+    return {
+        'area': area,
+        'inertia': inertia,
+        'elasticModulus': inertia / extreme_fiber,
+        'plasticModulus': plastic_modulus,
+    }
+
+
+def steel_capacity(diameter, wall_thickness, steel_section, axial_load, EI):
+    """
+    Yield and plastic moments of a steel section under axial load
+
+    Parameters
+    ----------
+    diameter : float
+        Pipe outside diameter or H-pile depth (m)
+    wall_thickness : float or None
+        Pipe wall thickness (m), required for pipes
+    steel_section : dict
+        SteelSection: shape, yieldStrength (MPa) and, for H-piles, flange
+        and web dimensions (m) and bendingAxis
+    axial_load : float
+        Axial load (kN, compression positive)
+    EI : float
+        Flexural rigidity used by the solver at this node (kN·m²)
+
+    Returns
+    -------
+    capacity : dict
+        yieldMoment and plasticMoment (kN·m) reduced for the axial load,
+        the matching curvatures (1/m) at EI, and axialYield (kN)
+
+    First yield is reached when bending stress plus P/A reaches fy. The
+    plastic moment uses the interaction for a thin-walled tube,
+    Mpc = Mp·cos(πP/2Py), and for H-piles the plastic design
+    interactions Mpc = 1.18Mp(1 - P/Py) about the strong axis and
+    Mpc = 1.19Mp(1 - (P/Py)²) about the weak axis, neither exceeding Mp.
+    """
+
+    fy = steel_section['yieldStrength'] * 1000
+    if fy <= 0:
+        raise ValueError('steel yield strength must be positive')
+
+    shape = steel_section.get('shape', 'pipe')
+    if shape == 'pipe':
+        if not wall_thickness or wall_thickness <= 0:
+            raise ValueError('steel pipe needs a positive wall thickness')
+        props = pipe_properties(diameter, wall_thickness)
+    elif shape == 'h-pile':
+        axis = steel_section.get('bendingAxis') or 'strong'
+        props = h_pile_properties(
+            diameter,
+            steel_section.get('flangeWidth') or 0.0,
+            steel_section.get('flangeThickness') or 0.0,
+            steel_section.get('webThickness') or 0.0,
+            axis
+        )
+    else:
+        raise ValueError(f'unknown steel section shape: {shape}')
+
+    axial_yield = fy * props['area']
+    ratio = abs(axial_load) / axial_yield
+    if ratio >= 1:
+        raise ValueError(
+            f'axial load {abs(axial_load):.0f} kN reaches the squash load ({axial_yield:.0f} kN)'
+        )
+
+    yield_moment = props['elasticModulus'] * fy * (1 - ratio)
+    plastic_moment = props['plasticModulus'] * fy
+
+    if shape == 'pipe':
+        plastic_moment *= np.cos(np.pi / 2 * ratio)
+    elif axis == 'strong':
+        plastic_moment *= min(1.0, 1.18 * (1 - ratio))
+    else:
+        plastic_moment *= min(1.0, 1.19 * (1 - ratio**2))
+
+    # The axial interaction can drop Mpc below first yield at high P/Py
+    yield_moment = min(yield_moment, plastic_moment)
+
+    return {
+        'EI': EI,
+        'axialYield': axial_yield,
+        'yieldMoment': yield_moment,
+        'plasticMoment': plastic_moment,
+        'yieldCurvature': yield_moment / EI,
+        'plasticCurvature': plastic_moment / EI,
+    }
+
+
+def plastic_secant_stiffness(capacity, curvature):
+    """
+    Secant flexural stiffness (kN·m²) of an elastic-perfectly plastic
+    section at |curvature|; beyond the plastic curvature the moment
+    stays at Mp, forming a hinge
+    """
+
+    phi = abs(curvature)
+    if phi <= capacity['plasticCurvature']:
+        return capacity['EI']
+
+    return capacity['plasticMoment'] / phi
+
+
+def steel_section_state(capacity, curvature):
+    """Classify a steel section as elastic, yielded or plastic at |curvature|"""
+
+    phi = abs(curvature)
+
+    if phi >= capacity['plasticCurvature']:
+        return 'plastic'
+    if phi >= capacity['yieldCurvature']:
+        return 'yielded'
+    return 'elastic'
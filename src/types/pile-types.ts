@@ -10,6 +10,8 @@ export interface PileData {
   EI: number;              // Flexural rigidity (kN·m²)
   material: PileMaterial;
   sections?: PileSection[]; // For variable section piles
+  reinforcement?: RCReinforcement; // Circular RC section (concrete piles)
+  steelSection?: SteelSection; // Pipe or H-pile yield check (steel piles)
 }
 
 export type PileMaterial = 'steel' | 'concrete' | 'timber' | 'composite';
@@ -19,14 +21,43 @@ export interface PileSection {
   endDepth: number;         // Depth where section ends (m)
   diameter: number;         // Section diameter (m)
   EI: number;              // Section flexural rigidity (kN·m²)
+  endDiameter?: number;     // Diameter at endDepth for tapered sections (m)
+  endEI?: number;           // EI at endDepth for tapered sections (kN·m²)
+}
+
+export interface RCReinforcement {
+  concreteStrength: number; // Concrete compressive strength f'c (MPa)
+  steelYield: number;       // Reinforcing steel yield strength fy (MPa)
+  numBars: number;          // Number of longitudinal bars
+  barDiameter: number;      // Longitudinal bar diameter (m)
+  cover: number;            // Clear cover to the bars (m)
+  nonlinearEI: boolean;     // Update EI from moment-curvature analysis
+}
+
+export type SteelShape = 'pipe' | 'h-pile';
+
+export interface SteelSection {
+  shape: SteelShape;        // Pipe uses diameter and wallThickness; H-pile depth is the diameter
+  yieldStrength: number;    // Steel yield strength Fy (MPa)
+  flangeWidth?: number;     // H-pile flange width bf (m)
+  flangeThickness?: number; // H-pile flange thickness tf (m)
+  webThickness?: number;    // H-pile web thickness tw (m)
+  bendingAxis?: 'strong' | 'weak'; // H-pile bending axis
+  plasticHinge: boolean;    // Cap moment at the plastic moment Mp
 }
 
 // Soil profile and layer properties
 export interface SoilProfile {
   layers: SoilLayer[];
   groundwaterDepth?: number; // Depth to groundwater table (m)
+  groundSlope?: number;      // Ground slope angle θ at the pile (degrees)
+  slopeDirection?: SlopeDirection; // Side of the slope the lateral load pushes the pile toward
 }
 
+// Loading downslope reduces the clay and sand wedge resistance; loading
+// upslope is analyzed as level ground
+export type SlopeDirection = 'downslope' | 'upslope';
+
 export interface SoilLayer {
   id: string;
   topDepth: number;         // Top of layer (m)
@@ -34,16 +65,28 @@ export interface SoilLayer {
   soilType: SoilType;
   pyCurveMethod: PYCurveMethod;
   properties: SoilProperties;
+  customCurves?: CustomPYCurve[]; // User-defined p-y tables ('custom' method)
 }
 
 export type SoilType = 'soft-clay' | 'stiff-clay' | 'sand' | 'rock' | 'custom';
 
-export type PYCurveMethod = 'matlock' | 'reese-stiff-clay' | 'api-sand' | 'custom';
+export type PYCurveMethod = 'matlock' | 'reese-stiff-clay' | 'api-sand' | 'weak-rock' | 'custom';
+
+// User-defined p-y table; tables at several depths are interpolated
+export interface CustomPYCurve {
+  depth: number;            // Depth of the table (m)
+  points: PYPoint[];        // Starts at the origin, y strictly increasing
+}
+
+export interface PYPoint {
+  y: number;               // Deflection (m)
+  p: number;               // Soil resistance (kN/m)
+}
 
 export interface SoilProperties {
   // Common properties
   unitWeight: number;       // Total unit weight (kN/m³)
-  effectiveUnitWeight?: number; // Effective unit weight (kN/m³)
+  effectiveUnitWeight?: number; // Effective unit weight below water (kN/m³); defaults to γ − γw
 
   // Clay properties
   undrainedShearStrength?: number; // cu (kPa)
@@ -57,6 +100,12 @@ export interface SoilProperties {
 
   // Stiff clay specific
   ks?: number;             // Coefficient of subgrade modulus variation (kN/m³)
+
+  // Weak rock properties
+  uniaxialStrength?: number; // qur, uniaxial compressive strength of intact rock (kPa)
+  rqd?: number;            // Rock quality designation (%)
+  rockMassModulus?: number; // Eir, initial modulus of rock mass (kPa)
+  krm?: number;            // Strain factor (typically 0.0005 to 0.00005)
 }
 
 // Load cases
@@ -67,8 +116,45 @@ export interface LoadCase {
   moment: number;          // Moment at pile head (kN·m)
   axialLoad: number;       // Axial load (kN, positive = compression)
   loadDepth: number;       // Depth where lateral load applied (m, 0 = pile head)
+  loadingType: LoadingType; // Static or cyclic p-y curves
+  cycles?: number;         // Number of load cycles for cyclic loading
+  pointLoads?: PointLoad[]; // Additional point loads along the pile
+  distributedLoads?: DistributedLoad[]; // Piecewise-linear lateral loads q(z)
+  soilMovement?: SoilMovementPoint[]; // Imposed free-field soil displacement profile
+  soilSettlement?: SoilSettlementPoint[]; // Soil settlement profile for downdrag
+}
+
+// Free-field soil displacement at a depth (interpolated linearly, zero outside the profile)
+export interface SoilMovementPoint {
+  depth: number;           // Depth below pile head (m)
+  displacement: number;    // Horizontal soil displacement (m)
+}
+
+// Soil settlement at a depth (interpolated linearly, zero outside the profile)
+export interface SoilSettlementPoint {
+  depth: number;           // Depth below pile head (m)
+  settlement: number;      // Vertical soil settlement, downward positive (m)
 }
 
+// Concentrated load applied along the pile
+export interface PointLoad {
+  id: string;
+  depth: number;           // Depth below pile head (m)
+  lateralLoad: number;     // Horizontal load (kN)
+  moment: number;          // Moment (kN·m)
+}
+
+// Linearly varying lateral load over a depth range
+export interface DistributedLoad {
+  id: string;
+  topDepth: number;        // Segment top depth below pile head (m)
+  bottomDepth: number;     // Segment bottom depth (m)
+  topIntensity: number;    // q at top of segment (kN/m)
+  bottomIntensity: number; // q at bottom of segment (kN/m)
+}
+
+export type LoadingType = 'static' | 'cyclic';
+
 // Analysis configuration
 export interface AnalysisConfig {
   boundaryCondition: BoundaryCondition;
@@ -76,9 +162,71 @@ export interface AnalysisConfig {
   maxIterations: number;   // Max Newton-Raphson iterations
   convergenceTolerance: number; // Convergence tolerance
   loadSteps: number;       // Number of load steps
+  rotationalStiffness?: number; // Head rotational restraint kθ (kN·m/rad)
+  headSlope?: number;      // Specified head slope (rad)
+  headDeflection?: number; // Specified head deflection (m)
+  bucklingAnalysis?: boolean; // Find the buckling load and amplification factor
+  loadSettlement?: boolean; // Axial load-settlement analysis on t-z and Q-z curves
+  downdrag?: boolean;      // Neutral plane and dragload from the soil settlement profile
+  baseSprings?: BaseSprings; // Shear and moment springs at the pile tip
+  scour?: ScourSettings;   // Analyze with and without scour side by side
+  pileGroup?: PileGroup;   // Analyze as a group under a rigid cap
+  pileCap?: PileCap;       // Rigid cap on vertical and battered piles (2D bent)
+}
+
+export type PMultiplierMethod = 'aashto' | 'reese';
+
+// Rectangular group; head lateral load and moment are group totals
+export interface PileGroup {
+  rows: number;            // Rows in the loading direction
+  pilesPerRow: number;     // Piles in each row, across the loading direction
+  rowSpacing: number;      // Centre-to-centre row spacing in the loading direction (m)
+  pileSpacing: number;     // Centre-to-centre spacing within a row (m)
+  method: PMultiplierMethod;
+  loadingDirection: 'forward' | 'reverse'; // forward: row 1 leads; reverse: last row leads
+}
+
+// Rigid cap on a row of piles; the load case's lateral load, axial load
+// (downward) and moment act on the cap
+export interface PileCap {
+  piles: CapPile[];
+  axialStiffness: number;  // Axial head stiffness of each pile (kN/m)
+  headConnection: 'fixed' | 'pinned';
+}
+
+export interface CapPile {
+  id: string;
+  position: number;        // Head position along the cap from the load point (m)
+  batter: number;          // Horizontal run per unit length down the pile; positive toe toward +x
+  pMultiplier?: number;    // Scales the pile's p-y curves (default 1)
 }
 
-export type BoundaryCondition = 'free-head' | 'fixed-head' | 'pinned-head';
+// Hyperbolic base springs: R = k·u / (1 + k·|u|/R_ult); zero capacity = linear
+export interface BaseSprings {
+  shearStiffness: number;      // Initial base shear stiffness (kN/m)
+  shearCapacity: number;       // Ultimate base shear (kN)
+  rotationalStiffness: number; // Initial base moment-rotation stiffness (kN·m/rad)
+  momentCapacity: number;      // Ultimate base moment (kN·m)
+}
+
+// Soil removed by scour; local scour is a hole at the pile below the
+// general scour surface. Without the hole geometry the local scour is
+// treated like general scour.
+export interface ScourSettings {
+  scourDepth: number;          // General scour below the ground surface (m)
+  localScourDepth?: number;    // Scour hole depth below the general scour surface (m)
+  holeBottomWidth?: number;    // Hole bottom width from the pile face (m)
+  holeSideSlope?: number;      // Hole side slope, horizontal over vertical
+}
+
+export type BoundaryCondition =
+  | 'free-head'
+  | 'fixed-head'
+  | 'pinned-head'
+  | 'rotational-restraint'
+  | 'specified-slope'
+  | 'specified-deflection'
+  | 'deflection-slope';
 
 // Analysis results
 export interface AnalysisResults {
@@ -89,10 +237,212 @@ export interface AnalysisResults {
   moments: number[];       // Bending moments (kN·m)
   shears: number[];        // Shear forces (kN)
   soilReactions: number[]; // Soil reactions per unit length (kN/m)
+  soilMovements: number[]; // Imposed free-field soil displacement (m)
+  verticalStress: number[]; // Vertical effective stress σ'v (kPa)
+  flexuralRigidity: number[]; // Section EI at each node (kN·m²)
+  diameters: number[];     // Section diameter at each node (m)
   maxDeflection: number;
   maxMoment: number;
   maxShear: number;
   deflectionAtLoad: number; // Deflection at load application point
+  loadPointDeflections: LoadPointDeflection[]; // Primary load first, then point loads
+  headSlope: number;       // Pile head slope (rad)
+  headMoment: number;      // Moment at pile head (kN·m)
+  headShear: number;       // Shear at pile head (kN)
+  restraintMoment: number; // Moment developed by the head restraint (kN·m)
+  restraintShear: number;  // Shear carried by the head restraint (kN)
+  sectionStates?: SectionState[]; // RC section state at each node (nonlinear EI)
+  crackedZones?: DepthRange[];    // Depth ranges past cracking
+  yieldedZones?: DepthRange[];    // Depth ranges past first yield
+  momentCurvature?: MomentCurvatureCurve; // Curve for the base pile diameter
+  plasticHinges?: DepthRange[];   // Depth ranges at the plastic moment (steel)
+  steelCapacity?: SteelCapacity;  // Capacity of the base steel section
+  buckling?: BucklingResult;      // Present when bucklingAnalysis is set
+  pushover: PushoverStep[];       // Pile head response at each load step
+  pushoverStopped?: string;       // Why load stepping stopped short of the full load
+  baseShear?: number;             // Base spring shear, resisting tip deflection (kN)
+  baseMoment?: number;            // Base spring moment, resisting tip slope (kN·m)
+  group?: GroupResult;            // Row results; the profiles above are for the critical row
+  cap?: CapResult;                // Cap movement and pile forces; profiles above are for the critical pile
+  axialCapacity: AxialCapacityResult; // Static axial capacity with the tip at each depth
+  loadSettlement?: LoadSettlementResult; // Present when loadSettlement is set (single piles)
+  downdrag?: DowndragResult;      // Present when downdrag is set (single piles)
+  scour?: ScourResult;            // Both cases; the profiles above are for the scoured case
+}
+
+export interface PushoverStep {
+  loadFactor: number;      // Fraction of the full load case applied
+  lateralLoad: number;     // Total lateral load applied: head, point and distributed loads (kN)
+  moment: number;          // Total concentrated moment applied (kN·m)
+  headDeflection: number;  // Head deflection (m)
+  headRotation: number;    // Head slope (rad)
+  maxMoment: number;       // Largest absolute moment along the pile (kN·m)
+  maxMomentDepth: number;  // Depth of the largest moment (m)
+  converged: boolean;
+}
+
+// Capacities are indexed like depths, each for the pile tip at that node
+export interface AxialCapacityResult {
+  unitSkinFriction: number[]; // Unit skin friction (kPa)
+  unitEndBearing: number[];   // Unit end bearing (kPa)
+  skinFriction: number[];     // Skin friction above the tip (kN)
+  endBearing: number[];       // End bearing at the tip (kN)
+  compression: number[];      // Compression capacity (kN)
+  uplift: number[];           // Uplift capacity (kN)
+  compressionCapacity: number; // Compression capacity at the pile tip (kN)
+  upliftCapacity: number;     // Uplift capacity at the pile tip (kN)
+  plugged: boolean | null;    // Open-ended pipe bears as plugged; null for other piles
+  factorOfSafety: number | null; // Capacity over the axial load; null without one
+  warnings: string[];         // Layers left without axial resistance
+}
+
+// Settlement is downward positive and the head load compression positive;
+// the response at the axial load is null (or empty) without one or when
+// the load exceeds the largest head load on the curve
+export interface LoadSettlementResult {
+  curve: LoadSettlementPoint[];
+  initialStiffness: number;       // Head load over settlement at the first step (kN/m)
+  ultimateLoad: number;           // Largest head load on the curve (kN)
+  exceedsCapacity: boolean;       // The axial load exceeds ultimateLoad
+  headSettlement: number | null;  // Head settlement under the axial load (m)
+  headStiffness: number | null;   // Secant head stiffness at the axial load (kN/m)
+  tipLoad: number | null;         // End bearing mobilized at the axial load (kN)
+  tipMobilization: number | null; // Tip load over the end bearing capacity
+  axialForces: number[];          // Axial force at each node (kN)
+  settlements: number[];          // Settlement at each node (m)
+  mobilizedFriction: number[];    // Mobilized unit skin friction at each node (kPa)
+}
+
+// Settlements are downward positive; mobilized friction is negative where
+// the soil drags the pile down
+export interface DowndragResult {
+  converged: boolean;
+  neutralPlaneDepth: number; // Depth where pile and soil settle equally (m)
+  maxAxialForce: number;   // Axial load plus dragload (kN)
+  maxForceDepth: number;   // Depth of the largest axial force (m)
+  dragload: number;        // Largest axial force less the head load (kN)
+  headSettlement: number;  // Pile head settlement (m)
+  tipSettlement: number;   // Pile tip settlement (m)
+  tipLoad: number;         // End bearing mobilized (kN)
+  settlements: number[];   // Pile settlement at each node (m)
+  soilSettlements: number[]; // Soil settlement at each node (m)
+  axialForces: number[];   // Axial force at each node (kN)
+  mobilizedFriction: number[]; // Mobilized unit skin friction at each node (kPa)
+}
+
+// Levels are depths below the pile head
+export interface ScourResult {
+  scourDepth: number;        // General scour depth (m)
+  localScourDepth: number;   // Local scour depth (m)
+  generalScourLevel: number; // General scour surface (m)
+  scourLevel: number;        // Bottom of the scour hole (m)
+  unscoured: ScourCaseSummary;
+  scoured: ScourCaseSummary;
+}
+
+export interface ScourCaseSummary {
+  converged: boolean;
+  headDeflection: number;  // Pile head deflection (m)
+  maxDeflection: number;   // Largest absolute deflection (m)
+  maxMoment: number;       // Largest absolute moment (kN·m)
+  maxMomentDepth: number;  // Depth of the largest moment (m)
+  maxShear: number;        // Largest absolute shear (kN)
+  compressionCapacity: number; // Axial compression capacity (kN)
+  deflections: number[];   // Lateral deflection at each node (m)
+  moments: number[];       // Bending moment at each node (kN·m)
+  verticalStress: number[]; // Vertical effective stress σ'v at each node (kPa)
+}
+
+export interface LoadSettlementPoint {
+  headLoad: number;        // Axial head load (kN)
+  headSettlement: number;  // Head settlement (m)
+  tipSettlement: number;   // Tip settlement (m)
+  converged: boolean;
+}
+
+export interface CapResult {
+  horizontalDisplacement: number; // Cap movement along +x (m)
+  verticalDisplacement: number;   // Cap settlement (m)
+  rotation: number;               // Cap rotation in the sense of a positive moment (rad)
+  criticalPile: number;           // Pile with the largest moment (1-based)
+  piles: CapPileResult[];
+}
+
+export interface CapPileResult {
+  id: string;
+  position: number;        // Head position along the cap (m)
+  batter: number;
+  axialForce: number;      // Axial head force, compression positive (kN)
+  lateralForce: number;    // Head shear across the pile (kN)
+  headMoment: number;      // Head moment (kN·m)
+  horizontalForce: number; // Horizontal load taken from the cap (kN)
+  verticalForce: number;   // Vertical load taken from the cap (kN)
+  headDeflection: number;  // Lateral head deflection across the pile (m)
+  maxMoment: number;       // Largest absolute moment (kN·m)
+  maxMomentDepth: number;  // Distance down the pile of the largest moment (m)
+  deflections: number[];   // Response curves at the solver depths (m, kN·m, kN, kN/m)
+  moments: number[];
+  shears: number[];
+  soilReactions: number[];
+}
+
+export interface GroupResult {
+  method: PMultiplierMethod;
+  piles: number;           // Piles in the group
+  capDeflection: number;   // Common head deflection under the cap (m)
+  groupLoad: number;       // Lateral load carried by all piles (kN)
+  criticalRow: number;     // Row with the largest moment (1-based)
+  rows: GroupRowResult[];
+}
+
+export interface GroupRowResult {
+  row: number;             // Row number (1-based)
+  pMultiplier: number;
+  headDeflection: number;  // Head deflection (m)
+  headShear: number;       // Lateral load per pile (kN)
+  headMoment: number;      // Head moment per pile (kN·m)
+  maxMoment: number;       // Largest absolute moment (kN·m)
+  maxMomentDepth: number;  // Depth of the largest moment (m)
+  loadShare: number;       // Fraction of the group load carried by the row
+}
+
+export interface BucklingResult {
+  criticalLoad: number | null;        // Buckling axial load (kN); null if the pile cannot buckle
+  amplificationFactor: number | null; // 1/(1 - P/Pcr); null once P reaches Pcr
+  modeShape: number[];                // Buckled shape at each node, largest value 1
+  deflectionCurve: AxialDeflectionPoint[]; // Head deflection as the axial load grows
+}
+
+export interface AxialDeflectionPoint {
+  axialLoad: number;       // Axial load (kN)
+  headDeflection: number;  // Head deflection (m)
+}
+
+// RC sections: uncracked → cracked → yielded → ultimate; steel: elastic → yielded → plastic
+export type SectionState = 'uncracked' | 'cracked' | 'yielded' | 'ultimate' | 'elastic' | 'plastic';
+
+export interface SteelCapacity {
+  yieldMoment: number;     // First-yield moment under the axial load (kN·m)
+  plasticMoment: number;   // Plastic moment reduced for axial load (kN·m)
+  axialYield: number;      // Squash load Py (kN)
+}
+
+export interface DepthRange {
+  top: number;             // Top depth (m)
+  bottom: number;          // Bottom depth (m)
+}
+
+export interface MomentCurvatureCurve {
+  curvature: number[];     // Curvature (1/m)
+  moment: number[];        // Moment (kN·m)
+  crackingMoment: number;  // Moment at first cracking (kN·m)
+  yieldMoment: number;     // Moment at first bar yield (kN·m)
+  ultimateMoment: number;  // Peak moment up to concrete crushing (kN·m)
+}
+
+export interface LoadPointDeflection {
+  depth: number;           // Load application depth (m)
+  deflection: number;      // Deflection at that depth (m)
 }
 
 // Pyodide-related types
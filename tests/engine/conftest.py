@@ -0,0 +1,27 @@
+"""
+Import the Python engine the way the app loads it into Pyodide: each
+src/engine/<name>.py file is importable as the module <name> with
+hyphens turned into underscores (py-curves.py as py_curves, pile-solver.py
+as pile_solver)
+"""
+
+import importlib.abc
+import importlib.util
+import sys
+from pathlib import Path
+
+ENGINE_DIR = Path(__file__).resolve().parents[2] / 'src' / 'engine'
+
+# Keep the engine directory free of __pycache__
+sys.dont_write_bytecode = True
+
+
+class EngineModuleFinder(importlib.abc.MetaPathFinder):
+    def find_spec(self, name, path, target=None):
+        source = ENGINE_DIR / f"{name.replace('_', '-')}.py"
+        if path is not None or not source.is_file():
+            return None
+        return importlib.util.spec_from_file_location(name, source)
+
+
+sys.meta_path.insert(0, EngineModuleFinder())
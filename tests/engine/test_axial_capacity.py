@@ -0,0 +1,78 @@
+"""
+Axial capacity against the API β-method in sand, layers left without
+strength properties and how often an analysis computes it
+"""
+
+import numpy as np
+import pytest
+
+import pile_solver
+from axial_capacity import axial_capacity
+from py_curves import vertical_effective_stress
+
+LENGTH = 30.0
+DIAMETER = 0.6
+PILE_DATA = {'length': LENGTH, 'diameter': DIAMETER, 'EI': 50000.0}
+
+SAND_PROFILE = {'layers': [{
+    'id': 'sand', 'topDepth': 0.0, 'bottomDepth': LENGTH, 'soilType': 'sand',
+    'pyCurveMethod': 'api-sand', 'properties': {'unitWeight': 18.0, 'frictionAngle': 30.0}
+}]}
+
+DEPTHS = np.linspace(0, LENGTH, 301)
+
+
+def test_sand_axial_capacity():
+    """
+    Closed-ended pile in dry sand (δ = 25°): β·σ'v skin friction up to its
+    limit fs,lim plus limiting end bearing qlim·πD²/4
+    """
+
+    capacity = axial_capacity(
+        PILE_DATA, SAND_PROFILE, DEPTHS, np.full(301, DIAMETER),
+        vertical_effective_stress(SAND_PROFILE, DEPTHS), 0.0
+    )
+    beta, f_lim = 0.8 * np.tan(np.radians(25.0)), 81.3
+    z_lim = f_lim / (beta * 18.0)
+    expected = np.pi * DIAMETER * (
+        beta * 18.0 * z_lim**2 / 2 + f_lim * (LENGTH - z_lim)
+    ) + 4800.0 * np.pi * DIAMETER**2 / 4
+
+    assert capacity['compressionCapacity'] == pytest.approx(expected, rel=5e-3)
+    assert capacity['warnings'] == []
+
+
+def test_layer_without_strength():
+    """A rock layer with custom p-y tables but no uniaxial strength carries nothing axially, with a warning"""
+
+    profile = {'layers': [
+        SAND_PROFILE['layers'][0] | {'bottomDepth': 20.0},
+        {'id': 'rock', 'topDepth': 20.0, 'bottomDepth': LENGTH, 'soilType': 'rock',
+         'pyCurveMethod': 'custom', 'properties': {'unitWeight': 22.0},
+         'customCurves': [{'depth': 20.0, 'points': [{'y': 0.0, 'p': 0.0}, {'y': 0.01, 'p': 1000.0}]}]},
+    ]}
+    capacity = axial_capacity(
+        PILE_DATA, profile, DEPTHS, np.full(301, DIAMETER), vertical_effective_stress(profile, DEPTHS), 0.0
+    )
+
+    assert capacity['warnings'] == ['Layer 2 has no axial resistance: rock layers need a positive '
+                                    'uniaxialStrength for axial capacity']
+    assert capacity['unitSkinFriction'][-1] == 0.0
+    assert capacity['endBearing'][-1] == 0.0
+    assert capacity['skinFriction'][-1] == pytest.approx(capacity['skinFriction'][201])
+
+
+def test_computed_once_per_analysis(monkeypatch):
+    """A group analysis solves the pile many times but computes the axial capacity once"""
+
+    calls = []
+    monkeypatch.setattr(pile_solver, 'axial_capacity', lambda *args: calls.append(args) or {})
+    output = pile_solver.solve_pile(
+        PILE_DATA, SAND_PROFILE, {'lateralLoad': 200.0, 'moment': 0.0, 'axialLoad': 500.0, 'loadDepth': 0.0},
+        {'numNodes': 101, 'maxIterations': 50, 'convergenceTolerance': 1e-6, 'boundaryCondition': 'free-head',
+         'pileGroup': {'rows': 2, 'pilesPerRow': 2, 'rowSpacing': 1.8, 'pileSpacing': 1.8, 'method': 'aashto'}}
+    )
+
+    assert output['success'], output.get('error')
+    assert len(calls) == 1
+    assert calls[0][-1] == 500.0
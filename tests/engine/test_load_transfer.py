@@ -0,0 +1,89 @@
+"""
+Axial load transfer on t-z and Q-z springs against closed-form solutions
+for a short pile socketed in rock
+"""
+
+import numpy as np
+import pytest
+
+from load_transfer import (
+    axial_rigidity, build_load_transfer, downdrag, head_load, solve_head_settlement, API_TZ_SAND_PEAK
+)
+from py_curves import vertical_effective_stress
+
+EI = 50000.0
+DIAMETER = 0.6
+SOCKET = 5.0
+
+# Finite-difference discretization error allowed
+FD_RTOL = 5e-3
+
+PILE_DATA = {'length': SOCKET, 'diameter': DIAMETER, 'EI': EI}
+
+ROCK_PROFILE = {'layers': [{
+    'id': 'rock', 'topDepth': 0.0, 'bottomDepth': SOCKET, 'soilType': 'rock',
+    'pyCurveMethod': 'weak-rock', 'properties': {'unitWeight': 22.0, 'uniaxialStrength': 1000.0}
+}]}
+
+
+def rock_load_transfer(n_nodes, EI_value):
+    depths = np.linspace(0, SOCKET, n_nodes)
+    transfer = build_load_transfer(
+        PILE_DATA, ROCK_PROFILE, depths, np.full(n_nodes, DIAMETER), np.full(n_nodes, EI_value),
+        vertical_effective_stress(ROCK_PROFILE, depths)
+    )
+    return depths, transfer
+
+
+def test_elastic_tz_head_stiffness():
+    """
+    Solid round pile on the linear start of its t-z and Q-z curves
+    (shaft ks per length, tip kb, EA = 16EI/D²): head stiffness
+    EA·λa(Ω + tanh λaL)/(1 + Ω·tanh λaL), λa = √(ks/EA), Ω = kb/(EA·λa)
+    """
+
+    depths, transfer = rock_load_transfer(101, EI)
+    w_head = 1e-5
+    settlements, _ = solve_head_settlement(transfer, w_head, np.zeros(101), 50, 1e-12)
+    EA = 16 * EI / DIAMETER**2
+    k_shaft = transfer['friction'][0] * np.pi * DIAMETER / 0.00254
+    k_tip = 0.25 * transfer['tip'] / (0.002 * DIAMETER)
+    lam_axial = np.sqrt(k_shaft / EA)
+    omega = k_tip / (EA * lam_axial)
+    tanh_l = np.tanh(lam_axial * depths[-1])
+
+    assert head_load(transfer, settlements) / w_head == pytest.approx(
+        EA * lam_axial * (omega + tanh_l) / (1 + omega * tanh_l), rel=FD_RTOL
+    )
+
+
+
+def test_downdrag():
+    """
+    Rigid pile in rock with soil settlement falling linearly from s0 at the
+    head to zero at the tip, no head load: full negative skin friction
+    tmax·πD above the neutral plane and positive below, with the full end
+    bearing Qp, so zn = L/2 + Qp/(2tmax·πD); the dragload is
+    tmax·πD·(zn - δ/2), t being mobilized across δ = 0.1 in·L/s0
+    """
+
+    depths, transfer = rock_load_transfer(501, 1e9)
+    s0 = 0.5
+    dragged = downdrag(transfer, 0.0, s0 * (1 - depths / depths[-1]), 100, 1e-9)
+    shaft_load = transfer['friction'][0] * np.pi * DIAMETER
+    z_neutral = depths[-1] / 2 + transfer['tip'] / (2 * shaft_load)
+    mobilizing_zone = API_TZ_SAND_PEAK * depths[-1] / s0
+
+    assert dragged['neutralPlaneDepth'] == pytest.approx(z_neutral, rel=FD_RTOL)
+    assert dragged['dragload'] == pytest.approx(shaft_load * (z_neutral - mobilizing_zone / 2), rel=FD_RTOL)
+
+def test_steel_pipe_needs_wall_thickness():
+    """A steel pipe without a wall thickness has no axial rigidity, rather than that of a solid bar"""
+
+    pipe = {**PILE_DATA, 'material': 'steel', 'steelSection': {'shape': 'pipe', 'yieldStrength': 345.0}}
+
+    with pytest.raises(ValueError, match='wall thickness'):
+        axial_rigidity(pipe, np.full(3, EI), np.full(3, DIAMETER))
+    assert axial_rigidity({**pipe, 'wallThickness': DIAMETER / 2}, [EI], [DIAMETER])[0] == pytest.approx(
+        16 * EI / DIAMETER**2
+    )
@@ -0,0 +1,20 @@
+"""
+Moment-curvature analysis of circular reinforced concrete sections
+"""
+
+import pytest
+
+from moment_curvature import moment_curvature
+
+# 0.9 m shaft, f'c = 30 MPa, fy = 420 MPa, 12 bars of 25 mm at 75 mm cover
+REINFORCEMENT = {'concreteStrength': 30.0, 'steelYield': 420.0, 'numBars': 12, 'barDiameter': 0.025, 'cover': 0.075}
+
+
+def test_bar_count():
+    """The cage needs a whole number of bars, at least one"""
+
+    assert moment_curvature(0.9, REINFORCEMENT, 0.0)['ultimateMoment'] > 0
+
+    for bars in (0, 2.5, None):
+        with pytest.raises(ValueError, match='whole number of bars'):
+            moment_curvature(0.9, {**REINFORCEMENT, 'numBars': bars}, 0.0)
@@ -0,0 +1,308 @@
+"""
+Solver results against closed-form solutions
+
+Most checks use Hetenyi's solutions for a long pile on a uniform elastic
+(Winkler) foundation of modulus k, represented by a linear p-y table,
+with λ = (k / 4EI)^(1/4).
+"""
+
+import numpy as np
+import pytest
+
+from pile_solver import solve_pile
+
+EI = 50000.0
+K = 20000.0
+LENGTH = 30.0
+DIAMETER = 0.6
+LAM = (K / (4 * EI)) ** 0.25
+P, M = 100.0, 100.0
+
+# Length of the rigid short pile on base springs
+SHORT = 2.0
+
+# Finite-difference discretization error allowed at 301 nodes
+FD_RTOL = 5e-3
+
+PILE_DATA = {'length': LENGTH, 'diameter': DIAMETER, 'EI': EI}
+CONFIG = {'numNodes': 301, 'maxIterations': 20, 'convergenceTolerance': 1e-9}
+NODE_SPACING = LENGTH / (CONFIG['numNodes'] - 1)
+
+# Linear p-y table standing in for an elastic foundation
+ELASTIC_PROFILE = {
+    'layers': [{
+        'id': 'elastic',
+        'topDepth': 0.0,
+        'bottomDepth': LENGTH,
+        'soilType': 'custom',
+        'pyCurveMethod': 'custom',
+        'properties': {'unitWeight': 18.0},
+        'customCurves': [{'depth': 0.0, 'points': [{'y': 0.0, 'p': 0.0}, {'y': 1.0, 'p': K}]}]
+    }]
+}
+
+# Soft clay failing under a few hundred kN on a 10 m pile
+SOFT_CLAY_PROFILE = {
+    'layers': [{
+        'id': 'clay',
+        'topDepth': 0.0,
+        'bottomDepth': 15.0,
+        'soilType': 'soft-clay',
+        'pyCurveMethod': 'matlock',
+        'properties': {'unitWeight': 17.0, 'effectiveUnitWeight': 7.2, 'undrainedShearStrength': 25.0,
+                       'epsilon50': 0.02, 'J': 0.5}
+    }],
+    'groundwaterDepth': 0.0
+}
+
+
+def run(bc_type, lateral_load, moment, load_values=None, pile_values=None, **config_values):
+    load_case = {'lateralLoad': lateral_load, 'moment': moment, 'axialLoad': 0.0, 'loadDepth': 0.0,
+                 **(load_values or {})}
+    output = solve_pile({**PILE_DATA, **(pile_values or {})}, ELASTIC_PROFILE, load_case,
+                        {**CONFIG, 'boundaryCondition': bc_type, **config_values})
+    assert output['success'], output.get('error')
+    return output['results']
+
+
+def test_free_head():
+    """Shear P: y0 = 2Pλ/k; moment M: y0 = 2Mλ²/k"""
+
+    assert run('free-head', P, 0.0)['deflections'][0] == pytest.approx(2 * P * LAM / K, rel=FD_RTOL)
+    assert run('free-head', 0.0, M)['deflections'][0] == pytest.approx(2 * M * LAM**2 / K, rel=FD_RTOL)
+
+
+def test_fixed_head():
+    """Shear P: y0 = Pλ/k, M0 = -P/(2λ)"""
+
+    results = run('fixed-head', P, 0.0)
+
+    assert results['deflections'][0] == pytest.approx(P * LAM / K, rel=FD_RTOL)
+    assert results['moments'][0] == pytest.approx(-P / (2 * LAM), rel=FD_RTOL)
+
+
+def test_pinned_head():
+    """Moment M: slope0 = -M/(2EIλ)"""
+
+    y = run('pinned-head', 0.0, M)['deflections']
+    slope = (-3 * y[0] + 4 * y[1] - y[2]) / (2 * NODE_SPACING)
+
+    assert slope == pytest.approx(-M / (2 * EI * LAM), rel=FD_RTOL)
+
+
+def test_rotational_restraint():
+    """
+    A rigid restraint acts as a fixed head; kθ = EIλ under shear P gives
+    M0 = kθ·slope0 and y0 = 3Pλ/(2k)
+    """
+
+    rigid = run('rotational-restraint', P, 0.0, rotationalStiffness=1e12)
+    spring = run('rotational-restraint', P, 0.0, rotationalStiffness=EI * LAM)
+
+    assert rigid['restraintMoment'] == pytest.approx(-P / (2 * LAM), rel=FD_RTOL)
+    assert spring['headMoment'] == pytest.approx(EI * LAM * spring['headSlope'], rel=FD_RTOL)
+    assert spring['deflections'][0] == pytest.approx(3 * P * LAM / (2 * K), rel=FD_RTOL)
+
+
+def test_prescribed_head():
+    """
+    Head deflection y0 with no moment takes shear ky0/(2λ); head slope θ0
+    with no shear takes moment -kθ0/(4λ³) and deflects 2M0λ²/k
+    """
+
+    deflected = run('specified-deflection', 0.0, 0.0, headDeflection=0.01)
+    rotated = run('specified-slope', 0.0, 0.0, headSlope=-0.001)
+    moment = 0.001 * K / (4 * LAM**3)
+
+    assert deflected['restraintShear'] == pytest.approx(K * 0.01 / (2 * LAM), rel=FD_RTOL)
+    assert rotated['restraintMoment'] == pytest.approx(moment, rel=FD_RTOL)
+    assert rotated['deflections'][0] == pytest.approx(2 * moment * LAM**2 / K, rel=FD_RTOL)
+
+
+def test_embedded_point_load():
+    """
+    Point load P at mid-length (infinite beam): y = Pλ/(2k), whether it
+    is the main load or an entry in the point load list
+    """
+
+    main = run('free-head', P, 0.0, {'loadDepth': LENGTH / 2})
+    listed = run('free-head', 0.0, 0.0, {'pointLoads': [{'depth': LENGTH / 2, 'lateralLoad': P, 'moment': 0.0}]})
+
+    assert main['deflectionAtLoad'] == pytest.approx(P * LAM / (2 * K), rel=FD_RTOL)
+    assert listed['loadPointDeflections'][1]['deflection'] == pytest.approx(main['deflectionAtLoad'])
+
+
+def test_uniform_distributed_load():
+    """Uniform load q over the full length: y = q/k"""
+
+    q = 10.0
+    results = run('free-head', 0.0, 0.0, {'distributedLoads': [{
+        'topDepth': 0.0, 'bottomDepth': LENGTH, 'topIntensity': q, 'bottomIntensity': q
+    }]})
+
+    assert results['deflections'][0] == pytest.approx(q / K, rel=FD_RTOL)
+
+
+def test_uniform_soil_movement():
+    """Uniform soil movement ys over the full length, no loads: y = ys"""
+
+    ys = 0.01
+    results = run('free-head', 0.0, 0.0, {'soilMovement': [
+        {'depth': 0.0, 'displacement': ys}, {'depth': LENGTH, 'displacement': ys}
+    ]})
+
+    assert results['deflections'][0] == pytest.approx(ys, rel=FD_RTOL)
+
+
+def test_sectioned_pile():
+    """Two sections of EI' = 2EI covering the pile, shear P: y0 = 2Pλ'/k"""
+
+    results = run('free-head', P, 0.0, pile_values={'sections': [
+        {'startDepth': 0.0, 'endDepth': LENGTH / 3, 'diameter': DIAMETER, 'EI': 2 * EI},
+        {'startDepth': LENGTH / 3, 'endDepth': LENGTH, 'diameter': DIAMETER, 'EI': 2 * EI},
+    ]})
+    lam_stiff = (K / (8 * EI)) ** 0.25
+
+    assert results['deflections'][0] == pytest.approx(2 * P * lam_stiff / K, rel=FD_RTOL)
+
+
+def test_buckling_load():
+    """Buckling load of a long pile (free-end mode): Pcr = √(k·EI)"""
+
+    buckling = run('free-head', P, 0.0, bucklingAnalysis=True)['buckling']
+
+    assert buckling['criticalLoad'] == pytest.approx(np.sqrt(K * EI), rel=FD_RTOL)
+
+
+def test_pushover_total_load():
+    """
+    Each step reports its share of the total lateral load and moment,
+    including point and distributed loads along the pile
+    """
+
+    pushover = run('free-head', 0.0, 0.0, {
+        'pointLoads': [{'depth': LENGTH / 2, 'lateralLoad': P, 'moment': M}],
+        'distributedLoads': [{'topDepth': 0.0, 'bottomDepth': 10.0, 'topIntensity': 10.0, 'bottomIntensity': 0.0}],
+    }, loadSteps=4)['pushover']
+
+    assert [step['loadFactor'] for step in pushover] == [0.25, 0.5, 0.75, 1.0]
+    assert pushover[1]['lateralLoad'] == pytest.approx((P + 50.0) / 2)
+    assert pushover[-1]['lateralLoad'] == pytest.approx(P + 50.0)
+    assert pushover[-1]['moment'] == pytest.approx(M)
+
+
+def test_load_stepping_stops_at_divergence():
+    """A load the soil cannot carry ends the pushover at the last converged step"""
+
+    output = solve_pile(
+        {**PILE_DATA, 'length': 10.0}, SOFT_CLAY_PROFILE,
+        {'lateralLoad': 1000.0, 'moment': 0.0, 'axialLoad': 0.0, 'loadDepth': 0.0},
+        {'numNodes': 50, 'maxIterations': 50, 'convergenceTolerance': 1e-6,
+         'boundaryCondition': 'free-head', 'loadSteps': 10}
+    )
+    results = output['results']
+
+    assert output['success']
+    assert not results['converged']
+    assert 'did not converge' in results['pushoverStopped']
+    assert 0 < len(results['pushover']) < 10
+    assert all(step['converged'] for step in results['pushover'])
+    assert np.all(np.isfinite(results['deflections']))
+    assert results['deflections'][0] == pytest.approx(results['pushover'][-1]['headDeflection'])
+
+
+def test_base_springs():
+    """
+    Rigid short pile on base shear and moment springs: rigid-body
+    translation and rotation from force and moment equilibrium
+    """
+
+    k_shear, k_rotation = K * SHORT, K * SHORT**3
+    output = solve_pile(
+        {'length': SHORT, 'diameter': DIAMETER, 'EI': 1e9}, ELASTIC_PROFILE,
+        {'lateralLoad': P, 'moment': 0.0, 'axialLoad': 0.0, 'loadDepth': 0.0},
+        {**CONFIG, 'numNodes': 101, 'boundaryCondition': 'free-head',
+         'baseSprings': {'shearStiffness': k_shear, 'rotationalStiffness': k_rotation}}
+    )
+    y0, _ = np.linalg.solve(
+        [[K * SHORT + k_shear, K * SHORT**2 / 2 + k_shear * SHORT],
+         [K * SHORT**2 / 2 + k_shear * SHORT, K * SHORT**3 / 3 + k_shear * SHORT**2 + k_rotation]],
+        [P, 0.0]
+    )
+
+    assert output['results']['deflections'][0] == pytest.approx(y0, rel=FD_RTOL)
+
+
+def test_widely_spaced_group():
+    """Two widely spaced rows (p-multipliers of 1), shear 2P on the cap: y0 = 2Pλ/k"""
+
+    group = run('free-head', 2 * P, 0.0, pileGroup={
+        'rows': 2, 'pilesPerRow': 1, 'rowSpacing': 8 * DIAMETER, 'method': 'reese'
+    })['group']
+
+    assert group['capDeflection'] == pytest.approx(2 * P * LAM / K, rel=FD_RTOL)
+
+
+def test_pinned_head_group():
+    """Piles pinned to the cap share the group load like free heads, with no head moment"""
+
+    group = {'rows': 3, 'pilesPerRow': 2, 'rowSpacing': 1.8, 'pileSpacing': 1.8, 'method': 'aashto'}
+    load_case = {'lateralLoad': 600.0, 'moment': 0.0, 'axialLoad': 0.0, 'loadDepth': 0.0}
+    config = {'numNodes': 50, 'maxIterations': 50, 'convergenceTolerance': 1e-6, 'pileGroup': group}
+    pinned = solve_pile({**PILE_DATA, 'length': 10.0}, SOFT_CLAY_PROFILE, load_case,
+                        {**config, 'boundaryCondition': 'pinned-head'})
+    free = solve_pile({**PILE_DATA, 'length': 10.0}, SOFT_CLAY_PROFILE, load_case,
+                      {**config, 'boundaryCondition': 'free-head'})
+
+    assert pinned['success'], pinned.get('error')
+    assert pinned['results']['group']['groupLoad'] == pytest.approx(600.0, rel=1e-4)
+    assert pinned['results']['group']['capDeflection'] == pytest.approx(free['results']['group']['capDeflection'])
+    assert all(row['headMoment'] == pytest.approx(0.0, abs=1e-6) for row in pinned['results']['group']['rows'])
+
+
+@pytest.mark.parametrize('bc_type', ['free-head', 'fixed-head'])
+def test_group_rejects_head_moment(bc_type):
+    """A cap moment would be carried by axial push-pull, which the group analysis does not model"""
+
+    output = solve_pile(PILE_DATA, ELASTIC_PROFILE,
+                        {'lateralLoad': 2 * P, 'moment': M, 'axialLoad': 0.0, 'loadDepth': 0.0},
+                        {**CONFIG, 'boundaryCondition': bc_type,
+                         'pileGroup': {'rows': 2, 'pilesPerRow': 1, 'rowSpacing': 8 * DIAMETER, 'method': 'reese'}})
+
+    assert not output['success']
+    assert 'pile cap' in output['error']
+
+
+def test_pinned_pile_cap():
+    """
+    Rigid cap on two pinned vertical piles at ±a with axial stiffness ka,
+    shear 2P and moment M on the cap: u = 2Pλ/k, θ = M/(2ka·a²)
+    """
+
+    a, k_axial = 1.5, 2e5
+    cap = run('free-head', 2 * P, M, pileCap={
+        'piles': [{'position': -a, 'batter': 0.0}, {'position': a, 'batter': 0.0}],
+        'axialStiffness': k_axial, 'headConnection': 'pinned'
+    })['cap']
+
+    assert cap['horizontalDisplacement'] == pytest.approx(2 * P * LAM / K, rel=FD_RTOL)
+    assert cap['rotation'] == pytest.approx(M / (2 * k_axial * a**2), rel=FD_RTOL)
+
+
+def test_general_scour():
+    """
+    General scour of depth e, shear P: the exposed length e is a cantilever
+    on a long pile loaded by P and Pe at the scoured surface:
+    y0 = yg + θg·e + Pe³/(3EI), yg = 2Pλ/k + 2Peλ²/k, θg = 2Pλ²/k + 4Peλ³/k;
+    the unscoured case keeps y0 = 2Pλ/k
+    """
+
+    e = 2.0
+    results = run('free-head', P, 0.0, scour={'scourDepth': e})
+    y_ground = 2 * P * LAM / K + 2 * P * e * LAM**2 / K
+    slope_ground = 2 * P * LAM**2 / K + 4 * P * e * LAM**3 / K
+
+    assert results['deflections'][0] == pytest.approx(
+        y_ground + slope_ground * e + P * e**3 / (3 * EI), rel=FD_RTOL
+    )
+    assert results['scour']['unscoured']['headDeflection'] == pytest.approx(2 * P * LAM / K, rel=FD_RTOL)
@@ -0,0 +1,239 @@
+"""
+P-y curves against the published relations of each method, evaluated
+through build_soil_springs on a single-layer profile without groundwater
+"""
+
+import numpy as np
+import pytest
+
+from py_curves import api_sand_coefficients, api_sand_modulus, build_soil_springs, vertical_effective_stress
+
+DIAMETER = 0.6
+
+# Soft clay: cu = 20 kPa, γ = 16 kN/m³, ε50 = 0.02, J = 0.5
+SOFT_CLAY = {'unitWeight': 16.0, 'undrainedShearStrength': 20.0, 'epsilon50': 0.02, 'J': 0.5}
+
+# Stiff clay: cu = 100 kPa, γ = 19 kN/m³, ε50 = 0.005, J = 0.5
+STIFF_CLAY = {'unitWeight': 19.0, 'undrainedShearStrength': 100.0, 'epsilon50': 0.005, 'J': 0.5}
+
+# Sand: φ' = 35°, γ = 18 kN/m³
+SAND = {'unitWeight': 18.0, 'frictionAngle': 35.0}
+
+# Weak rock: qur = 1 MPa, Eir = 200 MPa, RQD = 50% (αr = 2/3), krm = 0.0005
+WEAK_ROCK = {'unitWeight': 22.0, 'uniaxialStrength': 1000.0, 'rockMassModulus': 2e5, 'rqd': 50.0}
+
+
+def curves(soil_type, method, properties, depths, load_case=None, **layer_values):
+    profile = {'layers': [{
+        'id': 'layer', 'topDepth': 0.0, 'bottomDepth': 20.0, 'soilType': soil_type,
+        'pyCurveMethod': method, 'properties': properties, **layer_values
+    }]}
+    return build_soil_springs(profile, depths, DIAMETER, load_case or {})
+
+
+def matlock_pu(z):
+    """pu = min(3 + γz/cu + Jz/b, 9)·cu·b"""
+
+    return min(3 + 16.0 * z / 20.0 + 0.5 * z / DIAMETER, 9) * 20.0 * DIAMETER
+
+
+def test_matlock_static():
+    """
+    Static curve: p = 0.5pu(y/y50)^(1/3) with y50 = 2.5ε50·b, reaching pu
+    at 8y50; at 1 m pu = (3 + 0.8 + 0.83)·12 = 55.6 kN/m, at 10 m the
+    flow-around limit 9cu·b = 108 kN/m
+    """
+
+    shallow, deep = curves('soft-clay', 'matlock', SOFT_CLAY, [1.0, 10.0])
+    y50 = 2.5 * 0.02 * DIAMETER
+
+    assert matlock_pu(1.0) == pytest.approx(55.6, abs=0.05)
+    assert float(shallow(y50)) == pytest.approx(0.5 * matlock_pu(1.0))
+    assert float(shallow(y50 / 8)) == pytest.approx(0.25 * matlock_pu(1.0))
+    assert float(shallow(8 * y50)) == pytest.approx(matlock_pu(1.0))
+    assert float(shallow(20 * y50)) == pytest.approx(matlock_pu(1.0))
+    assert float(deep(8 * y50)) == pytest.approx(108.0)
+
+
+def test_matlock_cyclic():
+    """
+    Cyclic curve: the static curve up to 0.72pu at 3y50; above the
+    transition depth xr = 6b/(γb/cu + J) = 3.67 m it falls linearly to
+    0.72pu·z/xr at 15y50, below xr it holds 0.72pu
+    """
+
+    shallow, deep = curves('soft-clay', 'matlock', SOFT_CLAY, [1.0, 5.0], {'loadingType': 'cyclic'})
+    y50 = 2.5 * 0.02 * DIAMETER
+    xr = 6 * DIAMETER / (16.0 * DIAMETER / 20.0 + 0.5)
+    plateau = 0.72 * matlock_pu(1.0)
+
+    assert xr == pytest.approx(3.67, abs=0.005)
+    assert float(shallow(y50)) == pytest.approx(0.5 * matlock_pu(1.0))
+    assert float(shallow(3 * y50)) == pytest.approx(plateau, rel=5e-3)
+    assert float(shallow(9 * y50)) == pytest.approx(plateau * (1 + 1.0 / xr) / 2)
+    assert float(shallow(15 * y50)) == pytest.approx(plateau * 1.0 / xr)
+    assert float(shallow(30 * y50)) == pytest.approx(plateau * 1.0 / xr)
+    assert float(deep(15 * y50)) == pytest.approx(0.72 * 108.0)
+    assert float(deep(30 * y50)) == pytest.approx(0.72 * 108.0)
+
+
+def test_layered_effective_stress():
+    """
+    σ'v integrated through a sand layer over soft clay with the water table
+    at 2 m: total weight above it, buoyant γ - γw below; Matlock pu in the
+    clay takes σ'v from both layers in place of γz
+    """
+
+    profile = {'groundwaterDepth': 2.0, 'layers': [
+        {'id': 'sand', 'topDepth': 0.0, 'bottomDepth': 3.0, 'soilType': 'sand',
+         'pyCurveMethod': 'api-sand', 'properties': SAND},
+        {'id': 'clay', 'topDepth': 3.0, 'bottomDepth': 20.0, 'soilType': 'soft-clay',
+         'pyCurveMethod': 'matlock', 'properties': SOFT_CLAY},
+    ]}
+    sigma_v = 18.0 * 2.0 + (18.0 - 9.81) * 1.0 + (16.0 - 9.81) * 1.0
+
+    assert vertical_effective_stress(profile, [1.0, 4.0]) == pytest.approx([18.0, sigma_v])
+
+    clay, = build_soil_springs(profile, [4.0], DIAMETER, {})
+    pu = (3 + sigma_v / 20.0 + 0.5 * 4.0 / DIAMETER) * 20.0 * DIAMETER
+    assert float(clay(8 * 2.5 * 0.02 * DIAMETER)) == pytest.approx(pu)
+
+
+def test_stiff_clay_without_free_water():
+    """
+    Welch & Reese stiff clay above the water table at 2 m:
+    pu = (3 + 0.38 + 1.67)·60 = 302.8 kN/m, y50 = 2.5ε50·b; static
+    p = 0.5pu(y/y50)^(1/4) up to pu at 16y50. After N = 100 cycles
+    yc = ys + y50·C·log10 N with C = 9.6(p/pu)^4: at p = 0.5pu the
+    static ys = y50 and C = 0.6, so yc = 2.2y50, and pu is reached at
+    16y50 + 9.6·2·y50 = 35.2y50
+    """
+
+    static, = curves('stiff-clay', 'reese-stiff-clay', STIFF_CLAY, [2.0])
+    cyclic, = curves('stiff-clay', 'reese-stiff-clay', STIFF_CLAY, [2.0], {'loadingType': 'cyclic', 'cycles': 100})
+    pu = (3 + 19.0 * 2.0 / 100.0 + 0.5 * 2.0 / DIAMETER) * 100.0 * DIAMETER
+    y50 = 2.5 * 0.005 * DIAMETER
+
+    assert pu == pytest.approx(302.8, abs=0.05)
+    assert float(static(y50)) == pytest.approx(0.5 * pu)
+    assert float(static(16 * y50)) == pytest.approx(pu)
+    assert float(cyclic(2.2 * y50)) == pytest.approx(0.5 * pu)
+    assert float(cyclic(16 * y50)) < pu
+    assert float(cyclic(35.2 * y50)) == pytest.approx(pu)
+    assert float(cyclic(50 * y50)) == pytest.approx(pu)
+
+
+def test_api_sand_coefficients():
+    """C1, C2 and C3 of the API RP 2GEO chart at φ' = 30° and 35°"""
+
+    assert api_sand_coefficients(30.0) == pytest.approx((1.91, 2.67, 28.7), rel=5e-3)
+    assert api_sand_coefficients(35.0) == pytest.approx((2.97, 3.42, 53.8), rel=5e-3)
+
+
+def test_api_sand_modulus():
+    """
+    k from the API chart: 24.4 MN/m³ for medium sand above the water
+    table, 33.9 MN/m³ for dense sand below it, interpolated on φ'
+    otherwise; a user k0 takes precedence
+    """
+
+    assert api_sand_modulus({'relativeDensity': 'medium', 'frictionAngle': 30.0}, False) == 24400
+    assert api_sand_modulus({'relativeDensity': 'dense', 'frictionAngle': 30.0}, True) == 33900
+    assert api_sand_modulus({'frictionAngle': 35.5}, False) == pytest.approx((24400 + 61100) / 2)
+    assert api_sand_modulus({'frictionAngle': 35.0, 'k0': 20000.0}, True) == 20000.0
+
+
+def test_api_sand():
+    """
+    p = A·pu·tanh(kHy/(A·pu)) with pu the lesser of (C1H + C2D)γH and
+    C3DγH: initial slope kH and ultimate A·pu, where A = 3 - 0.8H/D for
+    static loading (2.6 at H = D/2), at least 0.9, and A = 0.9 for
+    cyclic loading
+    """
+
+    shallow, deep = curves('sand', 'api-sand', SAND, [0.3, 3.0])
+    cyclic, = curves('sand', 'api-sand', SAND, [0.3], {'loadingType': 'cyclic'})
+    C1, C2, C3 = api_sand_coefficients(35.0)
+
+    def pu(H):
+        return min((C1 * H + C2 * DIAMETER) * 18.0 * H, C3 * DIAMETER * 18.0 * H)
+
+    k = api_sand_modulus(SAND, False)
+
+    assert k == pytest.approx(24400 + 0.4 * (61100 - 24400))
+    assert float(shallow(1e-7)) / 1e-7 == pytest.approx(k * 0.3, rel=1e-4)
+    assert float(shallow(1.0)) == pytest.approx(2.6 * pu(0.3))
+    assert float(deep(1.0)) == pytest.approx(0.9 * pu(3.0))
+    assert float(cyclic(1.0)) == pytest.approx(0.9 * pu(0.3))
+
+
+def test_reese_weak_rock():
+    """
+    Reese weak rock with yrm = krm·b = 0.3 mm: at the rock surface
+    pur = αr·qur·b = 400 kN/m and Kir = 100Eir; at xr = 1.5b
+    pur = 400(1 + 1.4xr/b) = 1240 kN/m and Kir = (100 + 400xr/3b)Eir;
+    below 3b pur = 5.2αr·qur·b = 2080 kN/m and Kir = 500Eir. The line
+    Kir·y meets p = (pur/2)(y/yrm)^(1/4) at yA = 3.22e-6 m (surface),
+    and p reaches pur at 16yrm
+    """
+
+    surface, middle, deep = curves('rock', 'weak-rock', WEAK_ROCK, [0.0, 0.9, 3.0])
+    yrm = 0.0005 * DIAMETER
+    yA = 3.2183e-6
+
+    assert float(surface(yA / 2)) == pytest.approx(2e7 * yA / 2)
+    assert float(surface(yA)) == pytest.approx(2e7 * yA, rel=1e-4)
+    assert float(surface(yA)) == pytest.approx(200.0 * (yA / yrm) ** 0.25, rel=1e-4)
+    assert float(surface(yrm)) == pytest.approx(200.0)
+    assert float(surface(16 * yrm)) == pytest.approx(400.0)
+    assert float(surface(0.1)) == pytest.approx(400.0)
+    assert float(middle(1e-7)) / 1e-7 == pytest.approx(300 * 2e5)
+    assert float(middle(yrm)) == pytest.approx(620.0)
+    assert float(deep(1e-7)) / 1e-7 == pytest.approx(500 * 2e5)
+    assert float(deep(16 * yrm)) == pytest.approx(2080.0)
+
+
+def test_custom_tables():
+    """
+    User tables at 2 m and 6 m: linear in y and constant beyond the last
+    point, linear in depth between the tables, the nearest table above
+    the first and below the last
+    """
+
+    tables = [
+        {'depth': 2.0, 'points': [{'y': 0.0, 'p': 0.0}, {'y': 0.01, 'p': 10.0}, {'y': 0.05, 'p': 20.0}]},
+        {'depth': 6.0, 'points': [{'y': 0.0, 'p': 0.0}, {'y': 0.02, 'p': 40.0}]},
+    ]
+    above, upper, between, below = curves(
+        'custom', 'custom', {'unitWeight': 18.0}, [1.0, 2.0, 3.0, 8.0], customCurves=tables
+    )
+
+    assert float(above(0.03)) == pytest.approx(15.0)
+    assert float(upper(0.005)) == pytest.approx(5.0)
+    assert float(upper(0.1)) == pytest.approx(20.0)
+    assert float(between(0.01)) == pytest.approx(0.75 * 10.0 + 0.25 * 20.0)
+    assert float(below(0.01)) == pytest.approx(20.0)
+    assert float(below(0.1)) == pytest.approx(40.0)
+
+
+def test_downslope_soft_clay():
+    """
+    Soft clay on ground sloping down at θ in the loading direction:
+    shallow Matlock pu = (3 + γz/cu + Jz/b)·cu·b/(1 + tan θ); loading
+    upslope is level ground
+    """
+
+    profile = {
+        'layers': [{
+            'id': 'clay', 'topDepth': 0.0, 'bottomDepth': 20.0, 'soilType': 'soft-clay',
+            'pyCurveMethod': 'matlock', 'properties': SOFT_CLAY
+        }],
+        'groundSlope': 30.0,
+        'slopeDirection': 'downslope',
+    }
+    downslope, = build_soil_springs(profile, [1.0], DIAMETER, {})
+    upslope, = build_soil_springs({**profile, 'slopeDirection': 'upslope'}, [1.0], DIAMETER, {})
+    y50 = 2.5 * 0.02 * DIAMETER
+
+    assert float(downslope(8 * y50)) == pytest.approx(matlock_pu(1.0) / (1 + np.tan(np.radians(30.0))))
+    assert float(upslope(8 * y50)) == pytest.approx(matlock_pu(1.0))
@@ -0,0 +1,42 @@
+"""
+Yield and plastic capacity of steel pipe and H-pile sections
+"""
+
+import numpy as np
+import pytest
+
+from steel_section import steel_capacity
+
+# 610 mm pipe with a 12.7 mm wall, fy = 345 MPa
+DIAMETER = 0.61
+WALL = 0.0127
+PIPE = {'shape': 'pipe', 'yieldStrength': 345.0}
+EI = 200e6 * np.pi / 64 * (DIAMETER**4 - (DIAMETER - 2 * WALL)**4)
+
+
+def test_pipe_capacity():
+    """
+    Without axial load My = fy·S and Mp = fy·Z with Z = (D³ - d³)/6;
+    at half the squash load Mp drops to Mp·cos(π/4)
+    """
+
+    inner = DIAMETER - 2 * WALL
+    area = np.pi / 4 * (DIAMETER**2 - inner**2)
+    plastic = 345e3 * (DIAMETER**3 - inner**3) / 6
+    elastic = 345e3 * np.pi / 32 * (DIAMETER**4 - inner**4) / DIAMETER
+
+    unloaded = steel_capacity(DIAMETER, WALL, PIPE, 0.0, EI)
+    loaded = steel_capacity(DIAMETER, WALL, PIPE, 0.5 * 345e3 * area, EI)
+
+    assert unloaded['axialYield'] == pytest.approx(345e3 * area)
+    assert unloaded['yieldMoment'] == pytest.approx(elastic)
+    assert unloaded['plasticMoment'] == pytest.approx(plastic)
+    assert loaded['plasticMoment'] == pytest.approx(plastic * np.cos(np.pi / 4))
+
+
+def test_pipe_needs_wall_thickness():
+    """A pipe without a wall is rejected rather than analyzed as a solid bar"""
+
+    for wall in (None, 0.0):
+        with pytest.raises(ValueError, match='wall thickness'):
+            steel_capacity(DIAMETER, wall, PIPE, 0.0, EI)